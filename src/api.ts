@@ -0,0 +1,165 @@
+import * as vscode from "vscode";
+import {
+    findWorktreeContaining,
+    gitExecutable,
+    globalStateManager,
+    openTreeItem,
+    repos,
+    updateEvent,
+} from "./extension";
+import { worktreeLocation } from "./config";
+import { cleanPath } from "./execute";
+import { runPostCreateHooks } from "./postCreate";
+import { BasicWorktreeData, Repo } from "./repo";
+import { isSamePath, repoName } from "./util";
+import {
+    API,
+    CreateWorktreeOptions,
+    OpenWorktreeOptions,
+    RemoveWorktreeOptions,
+    Repository,
+    Worktree,
+    WorktreesExtension,
+} from "./worktrees";
+
+function toWorktree(repo: Repo, worktree: BasicWorktreeData): Worktree {
+    return {
+        uri: repo.dotgitdir.with({ path: worktree.worktree }),
+        branch: worktree.branch,
+        head: worktree.HEAD,
+        isMain: worktree.order === 0,
+        locked: worktree.locked,
+        prunable: worktree.prunable,
+    };
+}
+
+function toRepository(repo: Repo): Repository {
+    return {
+        gitDir: repo.dotgitdir,
+        name: repoName(repo.dotgitdir),
+        isBare: repo.isBare,
+        // the bare repository itself is listed like a worktree, but has nothing checked out
+        worktrees: Array.from(repo.worktrees.values())
+            .filter((wt) => wt.HEAD)
+            .map((wt) => toWorktree(repo, wt)),
+    };
+}
+
+function resolveRepo(repository: Repository | vscode.Uri): Repo | undefined {
+    const uri = repository instanceof vscode.Uri ? repository : repository.gitDir;
+    return (
+        repos.find((repo) => isSamePath(repo.dotgitdir.path, uri.path)) ??
+        findWorktreeContaining(uri.path)?.repo
+    );
+}
+
+/**
+ * @param requireRoot Only accept the uri of the worktree's folder itself, not of anything inside it,
+ * so a file's uri can't remove the whole worktree by mistake
+ */
+function resolveWorktree(
+    worktree: Worktree | vscode.Uri,
+    requireRoot = false,
+): {
+    repo: Repo;
+    worktree: BasicWorktreeData;
+} {
+    const uri = worktree instanceof vscode.Uri ? worktree : worktree.uri;
+    const found = findWorktreeContaining(uri.path);
+    if (!found) {
+        throw new Error(`${uri.toString()} is not in a worktree of a tracked repository.`);
+    }
+    if (requireRoot && !isSamePath(found.worktree.worktree, uri.path)) {
+        throw new Error(`${uri.toString()} is inside a worktree, not the worktree's folder.`);
+    }
+    return found;
+}
+
+/** Builds version 1 of the API that is returned from `activate` */
+function createAPIv1(context: vscode.ExtensionContext): API {
+    const onDidChange = new vscode.EventEmitter<void>();
+    context.subscriptions.push(
+        onDidChange,
+        updateEvent.event(() => onDidChange.fire()),
+    );
+
+    return {
+        version: 1,
+        get repositories() {
+            return repos.map(toRepository);
+        },
+        onDidChange: onDidChange.event,
+        getRepository(uri: vscode.Uri) {
+            const repo = resolveRepo(uri);
+            return repo && toRepository(repo);
+        },
+        getWorktree(uri: vscode.Uri) {
+            const found = findWorktreeContaining(uri.path);
+            return found && toWorktree(found.repo, found.worktree);
+        },
+        async createWorktree(repository: Repository | vscode.Uri, options: CreateWorktreeOptions) {
+            const repo = resolveRepo(repository);
+            if (!repo) {
+                throw new Error("That repository is not tracked by the Git Worktrees extension.");
+            }
+            const location = options.location ?? worktreeLocation(repo, options.branch);
+            const args = options.startPoint
+                ? ["-b", options.branch, cleanPath(location.path), options.startPoint]
+                : [cleanPath(location.path), options.branch];
+            const { error, stderr } = await repo.executeInRepo(
+                gitExecutable,
+                "worktree",
+                "add",
+                ...args,
+            );
+            if (error) {
+                throw new Error(stderr);
+            }
+            // don't wait for the file watcher, so the new worktree can be returned
+            await repo.handleUpdateWorktreeInfo(repo.dotgitdir);
+            await globalStateManager.worktreeIndex(location.path);
+            if (options.runPostCreateHooks ?? true) {
+                await runPostCreateHooks(repo, location, options.branch);
+            }
+            const created = Array.from(repo.worktrees.values()).find((wt) =>
+                isSamePath(wt.worktree, location.path),
+            );
+            if (!created) {
+                throw new Error(`Created the worktree, but could not find it at ${location.path}`);
+            }
+            return toWorktree(repo, created);
+        },
+        async removeWorktree(worktree: Worktree | vscode.Uri, options?: RemoveWorktreeOptions) {
+            const found = resolveWorktree(worktree, true);
+            const { error, stderr } = await found.repo.executeInRepo(
+                gitExecutable,
+                "worktree",
+                "remove",
+                // `--force` once ignores changes, twice also ignores a lock
+                ...(options?.force ? ["--force", "--force"] : []),
+                cleanPath(found.worktree.worktree),
+            );
+            if (error) {
+                throw new Error(stderr);
+            }
+            await globalStateManager.forgetWorktrees(found.worktree.worktree);
+            await found.repo.handleUpdateWorktreeInfo(found.repo.dotgitdir);
+        },
+        async openWorktree(worktree: Worktree | vscode.Uri, options?: OpenWorktreeOptions) {
+            const found = resolveWorktree(worktree);
+            await openTreeItem(`worktree:${found.worktree.worktree}`, options?.newWindow ?? false);
+        },
+    };
+}
+
+export function createExtensionExports(context: vscode.ExtensionContext): WorktreesExtension {
+    const v1 = createAPIv1(context);
+    return {
+        getAPI(version: number) {
+            if (version !== 1) {
+                throw new Error(`Version ${version} of the Git Worktrees API is not supported.`);
+            }
+            return v1;
+        },
+    };
+}
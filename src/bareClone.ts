@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+import { gitExecutable } from "./extension";
+import { cleanPath, execute } from "./execute";
+import { uriJoinPath, writeFileUTF8 } from "./util";
+
+/**
+ * Guesses a folder name from a clone url
+ *
+ * @example
+ * nameFromUrl("https://github.com/2kai2kai2/git-worktree.git") === "git-worktree"
+ * nameFromUrl("git@github.com:2kai2kai2/git-worktree") === "git-worktree"
+ */
+function nameFromUrl(url: string): string {
+    const last =
+        url
+            .replace(/[\\/]+$/, "")
+            .split(/[\\/:]/)
+            .at(-1) ?? "";
+    return last.replace(/\.git$/, "");
+}
+
+/**
+ * Clones a repository in the "worktree-first" layout:
+ * ```
+ * my-project/
+ *     .bare/      <- the bare clone
+ *     .git        <- a file pointing to .bare, so git commands work from my-project/
+ *     main/       <- a worktree for the default branch
+ * ```
+ * Bare clones don't fetch remote branches by default, so this also fixes `remote.origin.fetch`.
+ *
+ * @returns The bare repository's directory, or undefined if cancelled or it failed.
+ */
+export async function cloneBare(): Promise<vscode.Uri | undefined> {
+    const url = await vscode.window.showInputBox({
+        title: "Clone as Bare Repository for Worktrees",
+        prompt: "Repository URL",
+        placeHolder: "e.g. https://github.com/owner/project.git",
+        ignoreFocusOut: true,
+    });
+    if (!url) {
+        return undefined;
+    }
+    const parent = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        title: "Select Folder to Clone Into",
+        openLabel: "Select",
+    });
+    if (!parent) {
+        return undefined;
+    }
+    const name = await vscode.window.showInputBox({
+        title: "Clone as Bare Repository for Worktrees",
+        prompt: "Project folder name",
+        value: nameFromUrl(url),
+        ignoreFocusOut: true,
+        validateInput: (value) => (/^[^\\/]+$/.test(value) ? undefined : "Invalid folder name"),
+    });
+    if (!name) {
+        return undefined;
+    }
+
+    const projectDir = uriJoinPath(parent[0], name);
+    const bareDir = uriJoinPath(projectDir, ".bare");
+    return await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Cloning ${name}` },
+        async (progress) => {
+            const git = async (cwd: vscode.Uri, ...args: string[]) => {
+                const result = await execute(gitExecutable, args, { cwd: cwd.path });
+                if (result.error) {
+                    vscode.window.showErrorMessage(result.stderr);
+                }
+                return result;
+            };
+
+            await vscode.workspace.fs.createDirectory(projectDir);
+            progress.report({ message: "Cloning bare repository" });
+            if ((await git(projectDir, "clone", "--bare", url, cleanPath(bareDir.path))).error) {
+                return undefined;
+            }
+            await writeFileUTF8(uriJoinPath(projectDir, ".git"), "gitdir: ./.bare\n");
+
+            progress.report({ message: "Fetching remote branches" });
+            const fixFetch = await git(
+                bareDir,
+                "config",
+                "remote.origin.fetch",
+                "+refs/heads/*:refs/remotes/origin/*",
+            );
+            if (fixFetch.error || (await git(bareDir, "fetch", "origin")).error) {
+                return bareDir;
+            }
+
+            const { error, stdout } = await git(bareDir, "symbolic-ref", "--short", "HEAD");
+            if (error) {
+                return bareDir;
+            }
+            const defaultBranch = stdout.trim();
+            progress.report({ message: `Creating worktree for ${defaultBranch}` });
+            await git(
+                bareDir,
+                "branch",
+                `--set-upstream-to=origin/${defaultBranch}`,
+                defaultBranch,
+            );
+            await git(
+                bareDir,
+                "worktree",
+                "add",
+                cleanPath(uriJoinPath(projectDir, defaultBranch).path),
+                defaultBranch,
+            );
+            return bareDir;
+        },
+    );
+}
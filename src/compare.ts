@@ -0,0 +1,288 @@
+import * as vscode from "vscode";
+import { gitExecutable, logger } from "./extension";
+import { execute } from "./execute";
+import { BasicWorktreeData, Repo } from "./repo";
+import { pickRef } from "./quickPickers";
+import { refDisplayName, uriJoinPath, viewProgress } from "./util";
+import { getChangedFiles } from "./worktreeStatus";
+
+/**
+ * Serves the contents of files at a specific commit, for the left side of diffs.
+ *
+ * The path of the uri is the file's path in the worktree, and the query is a JSON {@link CommitFileQuery}.
+ * We need this rather than the built-in `git:` scheme because the git extension only handles
+ * repositories it has opened.
+ */
+const COMMIT_FILE_SCHEME = "worktrees-commit-file";
+interface CommitFileQuery {
+    /** The worktree to run git in */
+    cwd: string;
+    /** The file's path relative to the worktree */
+    file: string;
+    /** The commit to show the file at, or empty for an empty file */
+    commit: string;
+}
+function commitFileUri(worktree: vscode.Uri, file: string, commit: string): vscode.Uri {
+    const query: CommitFileQuery = { cwd: worktree.path, file, commit };
+    return uriJoinPath(worktree, file).with({
+        scheme: COMMIT_FILE_SCHEME,
+        query: JSON.stringify(query),
+    });
+}
+
+export function registerCommitFileProvider(): vscode.Disposable {
+    return vscode.workspace.registerTextDocumentContentProvider(COMMIT_FILE_SCHEME, {
+        async provideTextDocumentContent(uri) {
+            const { cwd, file, commit }: CommitFileQuery = JSON.parse(uri.query);
+            if (!commit) {
+                return "";
+            }
+            const { error, stdout } = await execute(gitExecutable, ["show", `${commit}:${file}`], {
+                cwd,
+                maxBuffer: 64 * 1024 * 1024,
+            });
+            // if it fails, the file doesn't exist at that commit
+            return error ? "" : stdout;
+        },
+    });
+}
+
+interface ComparedFile {
+    /** Relative to the root of the worktrees */
+    path: string;
+    /** `A` if the file was added, `D` if it was deleted or `M` if it was modified */
+    status: "A" | "D" | "M";
+    left: vscode.Uri;
+    right: vscode.Uri;
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function sameContents(a: vscode.Uri, b: vscode.Uri): Promise<boolean> {
+    try {
+        const [aBytes, bBytes] = await Promise.all([
+            vscode.workspace.fs.readFile(a),
+            vscode.workspace.fs.readFile(b),
+        ]);
+        return Buffer.from(aBytes).equals(bBytes);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Lists the differences between a commit and the files on disk in a worktree (including uncommitted and untracked files)
+ */
+async function compareWithCommit(worktreeUri: vscode.Uri, commit: string): Promise<ComparedFile[]> {
+    const { error, stdout, stderr } = await execute(
+        gitExecutable,
+        ["diff", "--name-status", "--no-renames", "-z", commit],
+        { cwd: worktreeUri.path },
+    );
+    if (error) {
+        throw new Error(stderr);
+    }
+    const files: ComparedFile[] = [];
+    const records = stdout.split("\0");
+    for (let i = 0; i + 1 < records.length; i += 2) {
+        const status = records[i] === "A" ? "A" : records[i] === "D" ? "D" : "M";
+        const path = records[i + 1];
+        files.push({
+            path,
+            status,
+            left: commitFileUri(worktreeUri, path, status === "A" ? "" : commit),
+            right:
+                status === "D"
+                    ? commitFileUri(worktreeUri, path, "")
+                    : uriJoinPath(worktreeUri, path),
+        });
+    }
+    for (const file of await getChangedFiles(worktreeUri.path)) {
+        if (file.code === "??") {
+            files.push({
+                path: file.path,
+                status: "A",
+                left: commitFileUri(worktreeUri, file.path, ""),
+                right: uriJoinPath(worktreeUri, file.path),
+            });
+        }
+    }
+    return files;
+}
+
+/**
+ * Lists the differences between the files on disk in two worktrees, including uncommitted and untracked files
+ */
+async function compareWithWorktree(
+    repo: Repo,
+    worktree: BasicWorktreeData,
+    other: BasicWorktreeData,
+): Promise<ComparedFile[]> {
+    const worktreeUri = repo.dotgitdir.with({ path: worktree.worktree });
+    const otherUri = repo.dotgitdir.with({ path: other.worktree });
+
+    // Anything that differs must either differ between the commits, or be changed in one of the worktrees
+    const candidates = new Set<string>();
+    if (worktree.HEAD && other.HEAD && worktree.HEAD !== other.HEAD) {
+        const { error, stdout, stderr } = await repo.executeInRepo(
+            gitExecutable,
+            "diff",
+            "--name-only",
+            "--no-renames",
+            "-z",
+            other.HEAD,
+            worktree.HEAD,
+        );
+        if (error) {
+            throw new Error(stderr);
+        }
+        stdout
+            .split("\0")
+            .filter((path) => path.length > 0)
+            .forEach((path) => candidates.add(path));
+    }
+    for (const wt of [worktree, other]) {
+        for (const file of await getChangedFiles(wt.worktree)) {
+            candidates.add(file.path);
+        }
+    }
+
+    const files: ComparedFile[] = [];
+    for (const path of Array.from(candidates).sort()) {
+        const left = uriJoinPath(otherUri, path);
+        const right = uriJoinPath(worktreeUri, path);
+        const [inLeft, inRight] = await Promise.all([exists(left), exists(right)]);
+        if (inLeft && inRight) {
+            if (!(await sameContents(left, right))) {
+                files.push({ path, status: "M", left, right });
+            }
+        } else if (inLeft) {
+            files.push({ path, status: "D", left, right: commitFileUri(worktreeUri, path, "") });
+        } else if (inRight) {
+            files.push({ path, status: "A", left: commitFileUri(otherUri, path, ""), right });
+        }
+    }
+    return files;
+}
+
+type CompareTarget =
+    | { type: "worktree"; worktree: BasicWorktreeData }
+    | { type: "ref" }
+    | { type: "merge-base" };
+type CompareTargetItem = vscode.QuickPickItem & { target: CompareTarget };
+
+/**
+ * Compares the files on disk in a worktree with another worktree or a ref, showing the changed
+ * files in a quick pick which opens a diff for each file.
+ */
+export async function compareWorktree(repo: Repo, worktree: BasicWorktreeData) {
+    const targetItems: CompareTargetItem[] = [
+        {
+            label: "$(git-branch) Branch, tag or remote...",
+            detail: "Compare with a ref",
+            target: { type: "ref" },
+        },
+        {
+            label: "$(git-merge) Base branch...",
+            detail: "Compare with where this worktree diverged from a branch",
+            target: { type: "merge-base" },
+        },
+        { label: "Worktrees", kind: vscode.QuickPickItemKind.Separator, target: { type: "ref" } },
+        ...Array.from(repo.worktrees.values())
+            .filter((wt) => wt.worktree !== worktree.worktree && wt.prunable === undefined)
+            .map<CompareTargetItem>((wt) => ({
+                label: refDisplayName(wt.branch ?? wt.HEAD ?? "NO NAME"),
+                description: wt.worktree,
+                target: { type: "worktree", worktree: wt },
+            })),
+    ];
+    const picked = await vscode.window.showQuickPick(targetItems, {
+        title: `Compare ${refDisplayName(worktree.branch ?? worktree.HEAD ?? "")} with...`,
+    });
+    if (!picked) {
+        return;
+    }
+
+    const worktreeUri = repo.dotgitdir.with({ path: worktree.worktree });
+    let otherLabel: string;
+    let files: ComparedFile[];
+    if (picked.target.type === "worktree") {
+        otherLabel = picked.label;
+        files = await viewProgress(
+            compareWithWorktree(repo, worktree, picked.target.worktree),
+            "Comparing worktrees",
+        );
+    } else {
+        const ref = await pickRef(repo, "Pick ref to compare with");
+        if (!ref) {
+            return;
+        }
+        const fullRef = `refs/${ref.type}/${ref.ref}`;
+        let commit = fullRef;
+        otherLabel = ref.ref;
+        if (picked.target.type === "merge-base") {
+            const { error, stdout, stderr } = await execute(
+                gitExecutable,
+                ["merge-base", fullRef, "HEAD"],
+                { cwd: worktree.worktree },
+            );
+            if (error) {
+                vscode.window.showErrorMessage(stderr || `No common ancestor with ${ref.ref}.`);
+                return;
+            }
+            commit = stdout.trim();
+            otherLabel = `merge base with ${ref.ref}`;
+        }
+        files = await viewProgress(compareWithCommit(worktreeUri, commit), "Comparing worktree");
+    }
+
+    if (files.length === 0) {
+        vscode.window.showInformationMessage(`There are no differences with ${otherLabel}.`);
+        return;
+    }
+    showComparedFiles(files, otherLabel, refDisplayName(worktree.branch ?? worktree.HEAD ?? ""));
+}
+
+type ComparedFileItem = vscode.QuickPickItem & { file: ComparedFile };
+function showComparedFiles(files: ComparedFile[], leftLabel: string, rightLabel: string) {
+    const quickPick = vscode.window.createQuickPick<ComparedFileItem>();
+    quickPick.title = `${files.length} changed file${files.length === 1 ? "" : "s"}: ${leftLabel} ↔ ${rightLabel}`;
+    quickPick.placeholder = "Select a file to show its diff, or press Escape to close";
+    quickPick.matchOnDescription = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.items = files.map((file) => ({
+        label: file.path,
+        description: { A: "Added", D: "Deleted", M: "Modified" }[file.status],
+        file,
+    }));
+
+    const openDiff = async (file: ComparedFile, preserveFocus: boolean) => {
+        try {
+            await vscode.commands.executeCommand(
+                "vscode.diff",
+                file.left,
+                file.right,
+                `${file.path} (${leftLabel} ↔ ${rightLabel})`,
+                { preview: true, preserveFocus },
+            );
+        } catch (e) {
+            logger.warn("Failed to open diff for", file.path, e);
+        }
+    };
+    // the quick pick stays open so multiple diffs can be looked through
+    quickPick.onDidAccept(async () => {
+        const selected = quickPick.selectedItems[0];
+        if (selected) {
+            await openDiff(selected.file, true);
+        }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+}
@@ -0,0 +1,124 @@
+import * as os from "os";
+import path from "path";
+import * as vscode from "vscode";
+import { Repo } from "./repo";
+import { readFileUTF8, repoName, uriJoinPath } from "./util";
+
+/** The directory containing the repository's `.git` directory */
+function repoRoot(repo: Readonly<Repo>): vscode.Uri {
+    return uriJoinPath(repo.dotgitdir, "..");
+}
+
+function getConfig(repo: Readonly<Repo>): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration("worktrees", repoRoot(repo));
+}
+
+/**
+ * Gets the worktree location template for a repository.
+ * Per-repository overrides (matched by repository name or path) take precedence over the general setting.
+ */
+function getLocationTemplate(repo: Readonly<Repo>): string {
+    const config = getConfig(repo);
+    const overrides = config.get<Record<string, string>>("worktreeLocationOverrides") ?? {};
+    const root = repoRoot(repo).path;
+    for (const [key, template] of Object.entries(overrides)) {
+        if (key === repoName(repo.dotgitdir) || key === root || key === repo.dotgitdir.path) {
+            return template;
+        }
+    }
+    return config.get<string>("worktreeLocation") || "${repoRoot}/${branch}";
+}
+
+/** Whether to create worktrees at their templated location without asking */
+export function shouldSkipLocationDialog(repo: Readonly<Repo>): boolean {
+    return getConfig(repo).get<boolean>("skipLocationDialog") ?? false;
+}
+
+/**
+ * Makes a branch name safe to use as a single folder name
+ *
+ * @example
+ * branchSlug("feature/my-thing") === "feature-my-thing"
+ */
+export function branchSlug(branch: string): string {
+    return branch.replace(/[\\/:*?"<>|\s]+/g, "-");
+}
+
+/**
+ * Determines where a new worktree should go using the `worktrees.worktreeLocation` template.
+ *
+ * Relative templates are resolved against the repository's root folder, and a leading `~` is the home directory.
+ * @param branch The branch (or other ref) that will be checked out in the new worktree
+ */
+export function worktreeLocation(repo: Readonly<Repo>, branch: string): vscode.Uri {
+    const root = repoRoot(repo);
+    const variables: Record<string, string> = {
+        repoName: repoName(repo.dotgitdir),
+        repoRoot: root.path,
+        repoParent: uriJoinPath(root, "..").path,
+        branch,
+        branchSlug: branchSlug(branch),
+    };
+    let expanded = getLocationTemplate(repo).replace(
+        /\$\{(\w+)\}/g,
+        (match, name: string) => variables[name] ?? match,
+    );
+    if (expanded === "~" || expanded.startsWith("~/")) {
+        expanded = os.homedir().replace(/\\/g, "/") + expanded.slice(1);
+    }
+    // on Windows an absolute path may start with a drive letter rather than a slash
+    if (/^([a-zA-Z]:)?[\\/]/.test(expanded)) {
+        return root.with({ path: path.posix.normalize(expanded.replace(/\\/g, "/")) });
+    }
+    return uriJoinPath(root, expanded.replace(/\\/g, "/"));
+}
+
+export interface PostCreateHooks {
+    /** Files or globs (relative to the main worktree) to copy into new worktrees */
+    copy: string[];
+    /** Files or globs (relative to the main worktree) to symlink into new worktrees */
+    symlink: string[];
+    /** Shell commands from the user's settings to run in new worktrees */
+    commands: string[];
+    /**
+     * Shell commands from `.vscode/worktrees.json`, which come from the repository rather than the
+     * user, so they need confirming first. Ones that are also in `commands` are left out.
+     */
+    repositoryCommands: string[];
+    /** Where to show the output of the commands */
+    runCommandsIn: "output" | "terminal";
+}
+
+function stringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/**
+ * Gets the steps to run after creating a worktree, combining the `worktrees.postCreate.*`
+ * settings with the `postCreate` section of `.vscode/worktrees.json` in the repository's root folder.
+ */
+export async function getPostCreateHooks(repo: Readonly<Repo>): Promise<PostCreateHooks> {
+    const config = getConfig(repo);
+    let file: { copy?: unknown; symlink?: unknown; commands?: unknown } = {};
+    try {
+        const json = JSON.parse(
+            await readFileUTF8(uriJoinPath(repoRoot(repo), ".vscode", "worktrees.json")),
+        );
+        if (typeof json?.postCreate === "object" && json.postCreate !== null) {
+            file = json.postCreate;
+        }
+    } catch {
+        // there is no (valid) config file, so only use the settings
+    }
+
+    const merge = (...lists: string[][]) => Array.from(new Set(lists.flat()));
+    const commands = merge(stringArray(config.get("postCreate.commands")));
+    return {
+        copy: merge(stringArray(config.get("postCreate.copy")), stringArray(file.copy)),
+        symlink: merge(stringArray(config.get("postCreate.symlink")), stringArray(file.symlink)),
+        commands,
+        repositoryCommands: merge(stringArray(file.commands)).filter((c) => !commands.includes(c)),
+        runCommandsIn:
+            config.get<string>("postCreate.runCommandsIn") === "terminal" ? "terminal" : "output",
+    };
+}
@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import { gitExecutable } from "./extension";
+import { BasicWorktreeData, Repo, executeInWorktree, worktreeDisplayName } from "./repo";
+import { inputNewBranchName, pickRef } from "./quickPickers";
+import { viewProgress } from "./util";
+
+/**
+ * Describes the commit a detached worktree is on: its subject and author, and the nearest tag or
+ * branch so it is easier to tell where it came from than with just a hash.
+ */
+export async function describeDetachedHead(worktree: Readonly<BasicWorktreeData>): Promise<string> {
+    const lines: string[] = [];
+    const log = await executeInWorktree(
+        worktree,
+        gitExecutable,
+        "log",
+        "-1",
+        "--format=%s%x00%an%x00%ar",
+        "HEAD",
+    );
+    if (!log.error) {
+        const [subject, author, date] = log.stdout.trim().split("\0");
+        lines.push(subject, `${author}, ${date}`);
+    }
+
+    const describe = await executeInWorktree(worktree, gitExecutable, "describe", "--tags", "HEAD");
+    if (!describe.error && describe.stdout.trim()) {
+        lines.push(`Nearest tag: ${describe.stdout.trim()}`);
+    }
+    const nameRev = await executeInWorktree(
+        worktree,
+        gitExecutable,
+        "name-rev",
+        "--name-only",
+        "--no-undefined",
+        "--exclude=tags/*",
+        "HEAD",
+    );
+    if (!nameRev.error && nameRev.stdout.trim()) {
+        lines.push(`Nearest branch: ${nameRev.stdout.trim()}`);
+    }
+    return lines.join("\n");
+}
+
+/** Creates a new branch at a detached worktree's commit and switches the worktree to it */
+export async function createBranchHere(repo: Repo, worktree: Readonly<BasicWorktreeData>) {
+    const name = await inputNewBranchName(
+        repo,
+        `Create Branch at ${worktreeDisplayName(worktree)}`,
+    );
+    if (!name) {
+        return;
+    }
+    const { error, stderr } = await viewProgress(
+        executeInWorktree(worktree, gitExecutable, "switch", "--create", name),
+        "Creating branch",
+    );
+    if (error) {
+        vscode.window.showErrorMessage(stderr);
+    }
+}
+
+/** Switches a worktree to an existing branch that isn't checked out in another worktree */
+export async function checkoutBranch(repo: Repo, worktree: Readonly<BasicWorktreeData>) {
+    const checkedOut = new Set(
+        Array.from(repo.worktrees.values()).flatMap((wt) => wt.branch ?? []),
+    );
+    const ref = await pickRef(
+        repo,
+        `Check Out Branch in ${worktreeDisplayName(worktree)}`,
+        (ref) =>
+            (ref.type === "heads" && !checkedOut.has(`refs/heads/${ref.ref}`)) ||
+            (ref.type === "remotes" && !ref.ref.endsWith("/HEAD")),
+        "There are no branches that aren't already checked out in a worktree.",
+    );
+    if (!ref) {
+        return;
+    }
+    // `switch` creates a local branch tracking the remote one if there isn't one already
+    const branch = ref.type === "remotes" ? ref.ref.slice(ref.ref.indexOf("/") + 1) : ref.ref;
+    const { error, stderr } = await viewProgress(
+        executeInWorktree(worktree, gitExecutable, "switch", branch),
+        "Checking out branch",
+    );
+    if (error) {
+        vscode.window.showErrorMessage(stderr);
+    }
+}
@@ -0,0 +1,312 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+import { gitExecutable, globalStateManager } from "./extension";
+import { cleanPath } from "./execute";
+import { BasicWorktreeData, Repo, executeInWorktree, worktreeDisplayName } from "./repo";
+import { refDisplayName, repoName } from "./util";
+import { WorktreeStatus, statusDescription } from "./worktreeStatus";
+
+export interface Commit {
+    hash: string;
+    shortHash: string;
+    subject: string;
+    author: string;
+    /** e.g. "2 days ago" */
+    relativeDate: string;
+}
+
+export interface DiskUsage {
+    bytes: number;
+    /** False if counting stopped early because the worktree has too many files */
+    complete: boolean;
+}
+
+export interface WorktreeDetails {
+    worktree: Readonly<BasicWorktreeData>;
+    status?: WorktreeStatus;
+    lastCommit?: Commit;
+    diskUsage?: DiskUsage;
+}
+
+const COMMIT_FORMAT = "--format=%H%x00%h%x00%s%x00%an%x00%ar";
+function parseCommits(stdout: string): Commit[] {
+    return stdout
+        .split("\n")
+        .filter((line) => line.length > 0)
+        .map((line) => {
+            const [hash, shortHash, subject, author, relativeDate] = line.split("\0");
+            return { hash, shortHash, subject, author, relativeDate };
+        });
+}
+
+/** Lists the most recent commits in a worktree, starting at its HEAD */
+export async function getRecentCommits(
+    worktree: Readonly<BasicWorktreeData>,
+    count: number,
+): Promise<Commit[]> {
+    const { error, stdout } = await executeInWorktree(
+        worktree,
+        gitExecutable,
+        "log",
+        `--max-count=${count}`,
+        COMMIT_FORMAT,
+        "HEAD",
+    );
+    return error ? [] : parseCommits(stdout);
+}
+
+/** Stop counting disk usage after this many files, so huge worktrees don't take forever */
+const MAX_COUNTED_FILES = 50000;
+/** How long to reuse a worktree's disk usage before counting again */
+const DISK_USAGE_CACHE_MS = 60 * 1000;
+const diskUsageCache = new Map<string, { time: number; usage: DiskUsage }>();
+
+/** Gets a worktree's disk usage if it was counted recently, without counting it again */
+export function cachedDiskUsage(worktreePath: string): DiskUsage | undefined {
+    const cached = diskUsageCache.get(worktreePath);
+    return cached && Date.now() - cached.time < DISK_USAGE_CACHE_MS ? cached.usage : undefined;
+}
+
+/** Adds up the size of the files in a worktree, not including the repository's `.git` folder */
+export async function getDiskUsage(worktreePath: string): Promise<DiskUsage> {
+    const cached = cachedDiskUsage(worktreePath);
+    if (cached) {
+        return cached;
+    }
+    const root = cleanPath(worktreePath);
+    let bytes = 0;
+    let files = 0;
+    const visit = async (folder: string): Promise<boolean> => {
+        let entries;
+        try {
+            entries = await fs.readdir(folder, { withFileTypes: true });
+        } catch {
+            return true; // we can't read it, so skip it
+        }
+        for (const entry of entries) {
+            const entryPath = path.join(folder, entry.name);
+            if (entry.isDirectory()) {
+                if (entry.name === ".git" && folder === root) {
+                    continue;
+                }
+                if (!(await visit(entryPath))) {
+                    return false;
+                }
+            } else if (entry.isFile()) {
+                try {
+                    bytes += (await fs.stat(entryPath)).size;
+                } catch {
+                    // it was deleted while we were counting
+                }
+                if (++files >= MAX_COUNTED_FILES) {
+                    return false;
+                }
+            }
+        }
+        return true;
+    };
+    const complete = await visit(root);
+    const usage = { bytes, complete };
+    diskUsageCache.set(worktreePath, { time: Date.now(), usage });
+    return usage;
+}
+
+export function formatBytes(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let unit = 0;
+    while (bytes >= 1024 && unit < units.length - 1) {
+        bytes /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? bytes : bytes.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Gathers what there is to show about a worktree. Disk usage is only included if it was counted
+ * recently, since counting it can take a while; use {@link getDiskUsage} for that.
+ */
+export async function getWorktreeDetails(
+    repo: Repo,
+    worktree: Readonly<BasicWorktreeData>,
+): Promise<WorktreeDetails> {
+    // the directory of a prunable worktree is gone, so there is nothing else to get
+    if (worktree.prunable !== undefined) {
+        return { worktree };
+    }
+    const [status, commits] = await Promise.all([
+        repo.status.load(worktree.worktree),
+        getRecentCommits(worktree, 1),
+    ]);
+    return {
+        worktree,
+        status,
+        lastCommit: commits[0],
+        diskUsage: cachedDiskUsage(worktree.worktree),
+    };
+}
+
+/**
+ * Describes a worktree's details as a list of labelled values, in the order they are shown
+ * @param uncountedDiskUsage What to show for the disk usage of an existing worktree if it isn't counted
+ */
+function detailRows(
+    { worktree, status, lastCommit, diskUsage }: WorktreeDetails,
+    uncountedDiskUsage?: string,
+): [string, string][] {
+    const rows: [string, string][] = [];
+    rows.push(["Path", worktree.worktree]);
+    rows.push(["Branch", worktree.branch ? refDisplayName(worktree.branch) : "(detached HEAD)"]);
+    if (status) {
+        rows.push(["Status", statusDescription(status).split("\n").join(", ")]);
+    }
+    if (lastCommit) {
+        rows.push([
+            "Last commit",
+            `${lastCommit.shortHash} ${lastCommit.subject} (${lastCommit.author}, ${lastCommit.relativeDate})`,
+        ]);
+    }
+    if (worktree.locked !== undefined) {
+        rows.push(["Locked", worktree.locked || "Yes"]);
+    }
+    if (worktree.prunable !== undefined) {
+        rows.push(["Prunable", worktree.prunable || "Yes"]);
+    }
+    if (diskUsage) {
+        rows.push([
+            "Disk usage",
+            `${diskUsage.complete ? "" : "at least "}${formatBytes(diskUsage.bytes)}`,
+        ]);
+    } else if (uncountedDiskUsage && worktree.prunable === undefined) {
+        rows.push(["Disk usage", uncountedDiskUsage]);
+    }
+    const { note } = globalStateManager.getMetadata(worktree.worktree);
+    if (note) {
+        rows.push(["Note", note]);
+    }
+    return rows;
+}
+
+/**
+ * Builds the tooltip for a worktree's tree item
+ * @param extra More lines to add at the end, e.g. about a detached HEAD
+ */
+export function detailsTooltip(details: WorktreeDetails, extra?: string): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    const { alias } = globalStateManager.getMetadata(details.worktree.worktree);
+    tooltip.appendMarkdown("**");
+    tooltip.appendText(alias ?? worktreeDisplayName(details.worktree));
+    tooltip.appendMarkdown("**\n\n");
+    for (const [label, value] of detailRows(details, "see Show worktree details")) {
+        tooltip.appendMarkdown(`${label}: `);
+        tooltip.appendText(value);
+        tooltip.appendMarkdown("  \n");
+    }
+    if (extra) {
+        tooltip.appendMarkdown("\n---\n\n");
+        for (const line of extra.split("\n")) {
+            tooltip.appendText(line);
+            tooltip.appendMarkdown("  \n");
+        }
+    }
+    return tooltip;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+function commandLink(command: string, args: unknown[], text: string): string {
+    const uri = `command:${command}?${encodeURIComponent(JSON.stringify(args))}`;
+    return `<a href="${escapeHtml(uri)}">${escapeHtml(text)}</a>`;
+}
+
+/** How many commits to list in the details view */
+const DETAILS_LOG_LENGTH = 30;
+
+/** The open details panels, so showing the same worktree again reuses its panel */
+const detailsPanels = new Map<string, vscode.WebviewPanel>();
+
+/** Opens (or focuses) a webview with a worktree's details and its recent commits */
+export async function showWorktreeDetails(repo: Repo, worktree: Readonly<BasicWorktreeData>) {
+    const existing = detailsPanels.get(worktree.worktree);
+    if (existing) {
+        existing.reveal();
+        return;
+    }
+    const folderUri = repo.dotgitdir.with({ path: cleanPath(worktree.worktree) });
+    const panel = vscode.window.createWebviewPanel(
+        "worktrees.details",
+        `Worktree: ${worktreeDisplayName(worktree)}`,
+        vscode.ViewColumn.Active,
+        {
+            enableCommandUris: [
+                "worktrees.switch-to-worktree",
+                "worktrees.open-worktree-new-window",
+                "revealFileInOS",
+            ],
+        },
+    );
+    detailsPanels.set(worktree.worktree, panel);
+    let disposed = false;
+    panel.onDidDispose(() => {
+        disposed = true;
+        detailsPanels.delete(worktree.worktree);
+    });
+
+    panel.webview.html = "<p>Loading...</p>";
+    const prunable = worktree.prunable !== undefined;
+    const [basicDetails, commits, diskUsage] = await Promise.all([
+        getWorktreeDetails(repo, worktree),
+        prunable ? [] : getRecentCommits(worktree, DETAILS_LOG_LENGTH),
+        prunable ? undefined : getDiskUsage(worktree.worktree),
+    ]);
+    if (disposed) {
+        return; // closed while loading
+    }
+    const details = { ...basicDetails, diskUsage };
+    const { alias } = globalStateManager.getMetadata(worktree.worktree);
+    const treeID = `worktree:${worktree.worktree}`;
+    const links =
+        worktree.prunable === undefined
+            ? [
+                  commandLink("worktrees.switch-to-worktree", [treeID], "Open in This Window"),
+                  commandLink("worktrees.open-worktree-new-window", [treeID], "Open in New Window"),
+                  commandLink("revealFileInOS", [folderUri], "Reveal in File Explorer"),
+              ].join(" | ")
+            : "";
+    const rows = detailRows(details)
+        .map(
+            ([label, value]) =>
+                `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`,
+        )
+        .join("\n");
+    const log = commits
+        .map(
+            (c) =>
+                `<tr><td><code>${escapeHtml(c.shortHash)}</code></td><td>${escapeHtml(c.subject)}</td><td>${escapeHtml(c.author)}</td><td>${escapeHtml(c.relativeDate)}</td></tr>`,
+        )
+        .join("\n");
+    panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <style>
+        th { text-align: left; padding-right: 1em; vertical-align: top; }
+        td { padding-right: 1em; vertical-align: top; }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(alias ?? worktreeDisplayName(worktree))}</h1>
+    <p>Worktree of ${escapeHtml(repoName(repo.dotgitdir))}</p>
+    <p>${links}</p>
+    <table>${rows}</table>
+    ${log ? `<h2>Recent Commits</h2>\n    <table>${log}</table>` : ""}
+</body>
+</html>`;
+}
@@ -0,0 +1,165 @@
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { gitExecutable, logger } from "./extension";
+import { execute } from "./execute";
+import { uriJoinPath } from "./util";
+
+export interface DiscoveryConfig {
+    roots: vscode.Uri[];
+    /** How many folders deep to look for repositories within each root */
+    depth: number;
+}
+
+export function getDiscoveryConfig(): DiscoveryConfig {
+    const config = vscode.workspace.getConfiguration("worktrees.discovery");
+    const roots = (config.get<string[]>("roots") ?? [])
+        .filter((root) => typeof root === "string" && root.length > 0)
+        .map((root) =>
+            vscode.Uri.file(
+                root === "~" || root.startsWith("~/") ? os.homedir() + root.slice(1) : root,
+            ),
+        );
+    return { roots, depth: Math.max(0, config.get<number>("depth") ?? 2) };
+}
+
+/** Folders which are never worth looking inside of */
+const SKIPPED_FOLDERS = new Set(["node_modules"]);
+
+/** The paths of the folders that the last {@link findRepositories} looked in */
+let scannedFolders = new Set<string>();
+
+/**
+ * Checks whether a folder is a repository (or a worktree of one)
+ * @param entries The contents of the folder
+ */
+function isRepository(entries: [string, vscode.FileType][]): boolean {
+    const names = new Map(entries);
+    if (names.has(".git")) {
+        return true;
+    }
+    // bare repositories have the contents of `.git` directly in them
+    return (
+        names.get("HEAD") === vscode.FileType.File &&
+        names.get("objects") === vscode.FileType.Directory &&
+        names.get("refs") === vscode.FileType.Directory
+    );
+}
+
+/**
+ * Finds the git repositories (including bare ones) in the discovery roots
+ * @returns The common git directory (the same as `trackRepo` expects) of each repository found
+ */
+export async function findRepositories({ roots, depth }: DiscoveryConfig): Promise<vscode.Uri[]> {
+    const found: vscode.Uri[] = [];
+    const visited = new Set<string>();
+    const visit = async (folder: vscode.Uri, remainingDepth: number) => {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(folder);
+        } catch {
+            return; // it doesn't exist or we can't read it
+        }
+        visited.add(folder.path);
+        if (isRepository(entries)) {
+            found.push(folder);
+            return; // don't look for repositories inside of repositories
+        }
+        if (remainingDepth <= 0) {
+            return;
+        }
+        for (const [name, type] of entries) {
+            if (
+                type === vscode.FileType.Directory &&
+                !name.startsWith(".") &&
+                !SKIPPED_FOLDERS.has(name)
+            ) {
+                await visit(uriJoinPath(folder, name), remainingDepth - 1);
+            }
+        }
+    };
+    for (const root of roots) {
+        await visit(root, depth);
+    }
+    scannedFolders = visited;
+
+    const dotgitdirs = new Map<string, vscode.Uri>();
+    for (const folder of found) {
+        const { error, stdout } = await execute(
+            gitExecutable,
+            ["rev-parse", "--path-format=absolute", "--git-common-dir"],
+            { cwd: folder.path },
+        );
+        if (error) {
+            logger.warn("Skipping discovered folder that git does not recognize:", folder.path);
+            continue;
+        }
+        const dotgitdir = folder.with({ path: stdout.trim() });
+        dotgitdirs.set(dotgitdir.toString(), dotgitdir);
+    }
+    return Array.from(dotgitdirs.values());
+}
+
+/**
+ * Watches for folders being added or removed within the discovery roots
+ * @param onChange Called (debounced) when something changes
+ */
+export function watchDiscoveryRoots(
+    { roots, depth }: DiscoveryConfig,
+    onChange: () => void,
+): vscode.Disposable {
+    // match every level that could contain (or be) a repository, and the `.git` inside of it
+    const levels = Array.from({ length: depth + 1 }, (_, i) =>
+        Array(i + 1)
+            .fill("*")
+            .join("/"),
+    );
+    const pattern = `{${levels.join(",")}}`;
+
+    let timer: NodeJS.Timeout | undefined;
+    const debounced = () => {
+        clearTimeout(timer);
+        timer = setTimeout(onChange, 2000);
+    };
+    /** Whether a change could add or remove a repository, rather than just being a file */
+    const affectsRepositories = async (root: vscode.Uri, uri: vscode.Uri, created: boolean) => {
+        const name = path.posix.basename(uri.path);
+        if (name === ".git") {
+            return true;
+        }
+        if (!created) {
+            // it is gone, so the only way to tell if it was a folder is whether we looked in it
+            return scannedFolders.has(uri.path);
+        }
+        const level = path.posix.relative(root.path, uri.path).split("/").length;
+        if (level > depth || name.startsWith(".") || SKIPPED_FOLDERS.has(name)) {
+            return false; // `findRepositories` wouldn't look at it
+        }
+        try {
+            return (await vscode.workspace.fs.stat(uri)).type === vscode.FileType.Directory;
+        } catch {
+            return false; // it was already deleted again
+        }
+    };
+
+    const subscriptions: vscode.Disposable[] = [new vscode.Disposable(() => clearTimeout(timer))];
+    for (const root of roots) {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(root, pattern),
+            false,
+            true,
+            false,
+        );
+        const onEvent = (created: boolean) => async (uri: vscode.Uri) => {
+            if (await affectsRepositories(root, uri, created)) {
+                debounced();
+            }
+        };
+        subscriptions.push(
+            watcher,
+            watcher.onDidCreate(onEvent(true)),
+            watcher.onDidDelete(onEvent(false)),
+        );
+    }
+    return vscode.Disposable.from(...subscriptions);
+}
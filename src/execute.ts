@@ -1,5 +1,6 @@
 import * as cp from "child_process";
 import { ObjectEncodingOptions } from "fs";
+import * as vscode from "vscode";
 import { logger } from "./extension";
 
 /**
@@ -45,3 +46,57 @@ export function execute(
         });
     });
 }
+
+export type ExecuteShellResult = {
+    /** The exit code, or null if the process was killed */
+    exitCode: number | null;
+    cancelled: boolean;
+};
+/**
+ * Runs a shell command, streaming its output as it is produced.
+ *
+ * WARNING: this runs arbitrary shell commands. Only use it for commands the user has configured or entered.
+ *
+ * @param env Extra environment variables, added to this process's environment
+ */
+export function executeShell(
+    command: string,
+    cwd: string,
+    onOutput: (text: string) => void,
+    token?: vscode.CancellationToken,
+    env?: Record<string, string>,
+): Promise<ExecuteShellResult> {
+    const _cwd = cleanPath(cwd);
+    return new Promise((res) => {
+        logger.info(`[${_cwd}] (shell) ${command}`);
+        const child = cp.spawn(command, {
+            cwd: _cwd,
+            shell: true,
+            env: env && { ...process.env, ...env },
+        });
+        let cancelled = false;
+        const cancelSub = token?.onCancellationRequested(() => {
+            cancelled = true;
+            child.kill();
+        });
+        let settled = false;
+        const settle = (exitCode: number | null) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            cancelSub?.dispose();
+            logger.trace(
+                `[RESULT] (shell) exit code ${exitCode}${cancelled ? " (cancelled)" : ""}`,
+            );
+            res({ exitCode, cancelled });
+        };
+        child.stdout.on("data", (data) => onOutput(data.toString()));
+        child.stderr.on("data", (data) => onOutput(data.toString()));
+        child.on("error", (error) => {
+            onOutput(`${error}\n`);
+            settle(null);
+        });
+        child.on("close", settle);
+    });
+}
@@ -1,23 +1,78 @@
 import * as vscode from "vscode";
 import { GitExtension, Ref, RefType } from "./git";
 import { BasicWorktreeData, Repo } from "./repo";
-import { refDisplayName, repoName, uriJoinPath, viewProgress, writeFileUTF8 } from "./util";
+import {
+    isPathInside,
+    isSamePath,
+    refDisplayName,
+    repoName,
+    uriJoinPath,
+    viewProgress,
+    writeFileUTF8,
+} from "./util";
 import { GlobalStateManager } from "./globalState";
+import { shouldSkipLocationDialog, worktreeLocation } from "./config";
 import assert from "assert";
 import { cleanPath, execute } from "./execute";
-import { pickRef, pickRepository, pickWorktree } from "./quickPickers";
+import { removeWorktree } from "./removeWorktree";
+import { runPostCreateHooks } from "./postCreate";
+import { compareWorktree, registerCommitFileProvider } from "./compare";
+import { cloneBare } from "./bareClone";
+import { moveChanges } from "./moveChanges";
+import { checkoutBranch, createBranchHere, describeDetachedHead } from "./detached";
+import { detailsTooltip, getWorktreeDetails, showWorktreeDetails } from "./details";
+import { goToWorktree } from "./goToWorktree";
+import { runInWorktrees } from "./runInWorktrees";
+import { environmentFor, worktreeEnvironment } from "./worktreeEnv";
+import { createExtensionExports } from "./api";
+import { WorktreesExtension } from "./worktrees";
+import { editWorktreeMetadata, worktreeColor } from "./metadata";
+import {
+    ViewOptionsManager,
+    branchPrefix,
+    matchesFilter,
+    pickFilter,
+    pickSort,
+    pickUnpinnedDisplay,
+    sortWorktrees,
+} from "./viewOptions";
+import { pullWorktree, pushWorktree, syncAllWorktrees } from "./sync";
+import { findRepositories, getDiscoveryConfig, watchDiscoveryRoots } from "./discovery";
+import { AutoFetcher, fetchRepo, pickFetchOptions, showFetchError } from "./fetch";
+import { isDirty, statusSummary } from "./worktreeStatus";
+import {
+    NEW_BRANCH,
+    inputNewBranchName,
+    pickBaseRef,
+    pickRef,
+    pickRepository,
+    pickWorktree,
+} from "./quickPickers";
 
 /** content is a stringified uri */
 export type RepositoryTreeID = `repository:${string}`;
 /** Content is just the file path (if necessary, assume other uri stuff is same as its repository) */
 export type WorktreeTreeID = `worktree:${string}`;
-export type TreeID = RepositoryTreeID | WorktreeTreeID;
+/** A group of repositories, such as the ones found by discovery */
+export type SectionTreeID = "section:discovered";
+/** Content is the branch prefix, then the stringified uri of its repository (branch names can't contain `:`) */
+export type GroupTreeID = `group:${string}:${string}`;
+export type TreeID = RepositoryTreeID | WorktreeTreeID | SectionTreeID | GroupTreeID;
 function isRepositoryTreeID(treeid: TreeID | any): treeid is RepositoryTreeID {
     return typeof treeid === "string" && treeid.startsWith("repository:");
 }
 function isWorktreeTreeID(treeid: TreeID | any): treeid is WorktreeTreeID {
     return typeof treeid === "string" && treeid.startsWith("worktree:");
 }
+function isGroupTreeID(treeid: TreeID | any): treeid is GroupTreeID {
+    return typeof treeid === "string" && treeid.startsWith("group:");
+}
+function parseGroupTreeID(treeid: GroupTreeID): { prefix: string; repository: RepositoryTreeID } {
+    assert(isGroupTreeID(treeid));
+    const rest = treeid.slice("group:".length);
+    const colon = rest.indexOf(":");
+    return { prefix: rest.slice(0, colon), repository: `repository:${rest.slice(colon + 1)}` };
+}
 function repositoryTreeIDToUri(treeid: RepositoryTreeID): vscode.Uri {
     assert(isRepositoryTreeID(treeid));
     return vscode.Uri.parse(treeid.slice("repository:".length));
@@ -35,6 +90,8 @@ function findRepo(treeid: TreeID): Repo | undefined {
     } else if (isWorktreeTreeID(treeid)) {
         const worktreeDir = worktreeTreeIDToPath(treeid);
         return repos.find((r) => r.worktrees.has(worktreeDir));
+    } else if (isGroupTreeID(treeid)) {
+        return findRepo(parseGroupTreeID(treeid).repository);
     }
     throw new Error(`Unrecognized TreeID: "${treeid}"`);
 }
@@ -49,7 +106,27 @@ function findWorktree(treeid: WorktreeTreeID): BasicWorktreeData | undefined {
     return undefined;
 }
 
-async function openTreeItem(item: WorktreeTreeID, newWindow: boolean) {
+/**
+ * Finds the worktree that contains a path. If worktrees are nested, the innermost one is used.
+ */
+export function findWorktreeContaining(
+    path: string,
+): { repo: Repo; worktree: BasicWorktreeData } | undefined {
+    let found: { repo: Repo; worktree: BasicWorktreeData } | undefined;
+    for (const repo of repos) {
+        for (const [, worktree] of repo.worktrees) {
+            if (
+                isPathInside(path, worktree.worktree) &&
+                (!found || worktree.worktree.length > found.worktree.worktree.length)
+            ) {
+                found = { repo, worktree };
+            }
+        }
+    }
+    return found;
+}
+
+export async function openTreeItem(item: WorktreeTreeID, newWindow: boolean) {
     const repo = findRepo(item);
     if (!repo) {
         throw new Error(`Was unable to find the corresponding repo for tree item "${item}"`);
@@ -72,6 +149,11 @@ async function openTreeItem(item: WorktreeTreeID, newWindow: boolean) {
  */
 const trackedRepos: vscode.Uri[] = [];
 
+/** Repos found in the `worktrees.discovery.roots`, as `dotgitdir.toString()` */
+const discoveredRepos = new Set<string>();
+/** Repos opened by the built-in git extension, as `dotgitdir.toString()` */
+const openedRepos = new Set<string>();
+
 /**
  * Starts tracking a repo if it is not already tracked
  * @param dotgitdir The '.git' directory for the new repository
@@ -90,9 +172,64 @@ async function trackRepo(dotgitdir: vscode.Uri, context: vscode.ExtensionContext
     updateEvent.fire(undefined);
 }
 
+/**
+ * Stops tracking a repo
+ * @param dotgitdir The '.git' directory for the repository
+ */
+function untrackRepo(dotgitdir: vscode.Uri) {
+    const trackedIndex = trackedRepos.findIndex(
+        (v) => v.toString(true) === dotgitdir.toString(true),
+    );
+    if (trackedIndex >= 0) {
+        trackedRepos.splice(trackedIndex, 1);
+    }
+    const repoIndex = repos.findIndex((r) => r.dotgitdir.toString() === dotgitdir.toString());
+    if (repoIndex >= 0) {
+        repos.splice(repoIndex, 1)[0].dispose();
+    }
+    logger.info("No longer tracking repository:", dotgitdir.toString(true));
+    updateEvent.fire(undefined);
+}
+
+/** The worktree open in the current window (the first workspace folder that is in a worktree) */
+function currentWorktree(): { repo: Repo; worktree: BasicWorktreeData } | undefined {
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const found = findWorktreeContaining(folder.uri.path);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+/** The worktree of the file being edited, or if there is none, the current worktree */
+function activeWorktree(): { repo: Repo; worktree: BasicWorktreeData } | undefined {
+    const editorPath = vscode.window.activeTextEditor?.document.uri.path;
+    return (
+        (editorPath !== undefined ? findWorktreeContaining(editorPath) : undefined) ??
+        currentWorktree()
+    );
+}
+
+/** The paths of the worktrees open in this window (as, or containing, one of its workspace folders) */
+function openWorktreePaths(): Set<string> {
+    return new Set(
+        (vscode.workspace.workspaceFolders ?? []).flatMap(
+            (folder) => findWorktreeContaining(folder.uri.path)?.worktree.worktree ?? [],
+        ),
+    );
+}
+
+/** The index of the workspace folder for a worktree, or undefined if it is not in the workspace */
+function workspaceFolderIndex(worktreePath: string): number | undefined {
+    return vscode.workspace.workspaceFolders?.find((f) => isSamePath(f.uri.path, worktreePath))
+        ?.index;
+}
+
 export let gitExecutable: string;
 export let logger: vscode.LogOutputChannel;
-export async function activate(context: vscode.ExtensionContext) {
+export let globalStateManager: GlobalStateManager;
+export async function activate(context: vscode.ExtensionContext): Promise<WorktreesExtension> {
     logger = vscode.window.createOutputChannel("Git Worktrees View", { log: true });
     logger.info(" ==== STARTING ==== ");
 
@@ -104,7 +241,68 @@ export async function activate(context: vscode.ExtensionContext) {
     }
     gitExecutable = git_extension.git.path;
 
-    const globalStateManager = await GlobalStateManager.init(context.globalStorageUri);
+    globalStateManager = await GlobalStateManager.init(context.globalStorageUri);
+
+    const viewOptions = new ViewOptionsManager(context.globalState);
+    context.subscriptions.push(
+        viewOptions,
+        viewOptions.event(() => updateEvent.fire(undefined)),
+    );
+    /**
+     * Lists the worktrees of a repository to show in the view, filtered and sorted by the view options
+     * @param prefix Only include worktrees with this branch prefix
+     */
+    const visibleWorktrees = async (repo: Repo, prefix?: string) => {
+        const options = viewOptions.options;
+        const worktrees: BasicWorktreeData[] = [];
+        for (const worktree of repo.worktrees.values()) {
+            if (
+                worktree.HEAD &&
+                (prefix === undefined || branchPrefix(worktree) === prefix) &&
+                (await matchesFilter(repo, worktree, options))
+            ) {
+                worktrees.push(worktree);
+            }
+        }
+        return await sortWorktrees(repo, worktrees, options.sort);
+    };
+    /** Whether a repo should be shown at the top level (or in the "Discovered" section) */
+    const isRepoVisible = async (repo: Repo) => {
+        if (
+            viewOptions.options.unpinnedRepos === "hidden" &&
+            !globalStateManager.isPinned(repo.dotgitdir)
+        ) {
+            return false;
+        }
+        // don't list repositories that have nothing matching the filter
+        return !viewOptions.isFiltered || (await visibleWorktrees(repo)).length > 0;
+    };
+
+    /** Whether a repo is only shown because it was discovered, so it goes in the "Discovered" section */
+    const isDiscoveredOnly = (repo: Repo) => {
+        const key = repo.dotgitdir.toString();
+        return (
+            discoveredRepos.has(key) && !openedRepos.has(key) && !globalStateManager.isPinned(key)
+        );
+    };
+    const rescanRepositories = async () => {
+        const found = await viewProgress(
+            findRepositories(getDiscoveryConfig()),
+            "Discovering repositories",
+        );
+        const foundKeys = new Set(found.map((dotgitdir) => dotgitdir.toString()));
+        for (const repo of [...repos]) {
+            if (isDiscoveredOnly(repo) && !foundKeys.has(repo.dotgitdir.toString())) {
+                untrackRepo(repo.dotgitdir);
+            }
+        }
+        discoveredRepos.clear();
+        foundKeys.forEach((key) => discoveredRepos.add(key));
+        for (const dotgitdir of found) {
+            await trackRepo(dotgitdir, context);
+        }
+        updateEvent.fire(undefined);
+    };
 
     context.subscriptions.push(
         git_extension.onDidOpenRepository(async (repository) => {
@@ -118,7 +316,9 @@ export async function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            await trackRepo(repository.rootUri.with({ path: stdout.trim() }), context);
+            const dotgitdir = repository.rootUri.with({ path: stdout.trim() });
+            openedRepos.add(dotgitdir.toString());
+            await trackRepo(dotgitdir, context);
         }),
         vscode.commands.registerCommand(
             "worktrees.open-worktree-new-window",
@@ -133,6 +333,145 @@ export async function activate(context: vscode.ExtensionContext) {
                 await openTreeItem(treeitem, true);
             },
         ),
+        vscode.commands.registerCommand(
+            "worktrees.switch-to-worktree",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const current = currentWorktree();
+                    const choice = current
+                        ? await pickWorktree(
+                              "Switch to Worktree",
+                              (wt, repo) =>
+                                  repo === current.repo &&
+                                  wt.worktree !== current.worktree.worktree,
+                              "There are no other worktrees in this repository.",
+                          )
+                        : await pickWorktree("Switch to Worktree");
+                    if (!isWorktreeTreeID(choice)) {
+                        return;
+                    }
+                    treeitem = choice;
+                }
+                await openTreeItem(treeitem, false);
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.add-to-workspace",
+            async (treeitem?: WorktreeTreeID) => {
+                let selected: WorktreeTreeID[];
+                if (isWorktreeTreeID(treeitem)) {
+                    selected = [treeitem];
+                } else {
+                    const choices = await pickWorktree(
+                        "Add Worktrees to Workspace",
+                        (wt) => workspaceFolderIndex(wt.worktree) === undefined,
+                        "All worktrees are already in the workspace.",
+                        true,
+                    );
+                    if (!choices || choices.length === 0) {
+                        return;
+                    }
+                    selected = choices;
+                }
+
+                const folders = selected.flatMap((item) => {
+                    const repo = findRepo(item);
+                    const worktree = findWorktree(item);
+                    if (
+                        !repo ||
+                        !worktree ||
+                        workspaceFolderIndex(worktree.worktree) !== undefined
+                    ) {
+                        return [];
+                    }
+                    return {
+                        uri: repo.dotgitdir.with({ path: cleanPath(worktree.worktree) }),
+                        name: `${repoName(repo.dotgitdir)} (${refDisplayName(worktree.branch ?? worktree.HEAD ?? "")})`,
+                    };
+                });
+                if (folders.length === 0) {
+                    vscode.window.showInformationMessage(
+                        "The worktree is already in the workspace.",
+                    );
+                    return;
+                }
+                const start = vscode.workspace.workspaceFolders?.length ?? 0;
+                if (!vscode.workspace.updateWorkspaceFolders(start, 0, ...folders)) {
+                    vscode.window.showErrorMessage("Failed to add the worktrees to the workspace.");
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.remove-from-workspace",
+            async (treeitem?: WorktreeTreeID) => {
+                let selected: WorktreeTreeID[];
+                if (isWorktreeTreeID(treeitem)) {
+                    selected = [treeitem];
+                } else {
+                    const choices = await pickWorktree(
+                        "Remove Worktrees from Workspace",
+                        (wt) => workspaceFolderIndex(wt.worktree) !== undefined,
+                        "There are no worktrees in the workspace.",
+                        true,
+                    );
+                    if (!choices || choices.length === 0) {
+                        return;
+                    }
+                    selected = choices;
+                }
+
+                // remove from the end first so the earlier indices stay valid
+                const indices = selected
+                    .map((item) => workspaceFolderIndex(worktreeTreeIDToPath(item)))
+                    .filter((i): i is number => i !== undefined)
+                    .sort((a, b) => b - a);
+                if (indices.length === 0) {
+                    vscode.window.showInformationMessage("The worktree is not in the workspace.");
+                    return;
+                }
+                for (const index of indices) {
+                    // each update has to finish before the next can start
+                    const changed = new Promise<void>((res) => {
+                        const sub = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                            sub.dispose();
+                            res();
+                        });
+                    });
+                    if (!vscode.workspace.updateWorkspaceFolders(index, 1)) {
+                        vscode.window.showErrorMessage(
+                            "Failed to remove the worktrees from the workspace.",
+                        );
+                        return;
+                    }
+                    await changed;
+                }
+            },
+        ),
+        vscode.commands.registerCommand("worktrees.rescan-repositories", async () => {
+            if (getDiscoveryConfig().roots.length === 0) {
+                const choice = await vscode.window.showInformationMessage(
+                    "There are no folders to discover repositories in.",
+                    "Open Settings",
+                );
+                if (choice === "Open Settings") {
+                    await vscode.commands.executeCommand(
+                        "workbench.action.openSettings",
+                        "worktrees.discovery",
+                    );
+                }
+                return;
+            }
+            await rescanRepositories();
+        }),
+        vscode.commands.registerCommand("worktrees.clone-bare-repository", async () => {
+            const dotgitdir = await cloneBare();
+            if (!dotgitdir) {
+                return;
+            }
+            // it isn't open in the git extension, so pin it to keep it in the view
+            await globalStateManager.addPinned(dotgitdir);
+            await trackRepo(dotgitdir, context);
+        }),
         vscode.commands.registerCommand("worktrees.add-new-worktree", async (treeitem: TreeID) => {
             if (!treeitem) {
                 const chosen = await pickRepository();
@@ -160,19 +499,50 @@ export async function activate(context: vscode.ExtensionContext) {
                     return true;
                 },
                 "There are no more branches to make worktrees for! Maybe you want to fetch?",
+                true,
             );
             if (!ref) {
                 return;
             }
-            const pickedLocation = await vscode.window.showOpenDialog({
-                canSelectFiles: false,
-                canSelectFolders: true,
-                canSelectMany: false,
-                title: "Select Worktree Location",
-                defaultUri: uriJoinPath(repo.dotgitdir, "..", ref.ref),
-            });
-            if (!pickedLocation) {
-                return;
+
+            let args: string[];
+            /** The branch (or other ref) that will be checked out in the new worktree */
+            let branchName: string;
+            if (ref === NEW_BRANCH) {
+                const newBranchName = await inputNewBranchName(repo);
+                if (!newBranchName) {
+                    return;
+                }
+                const base = await pickBaseRef(repo, `Pick base for "${newBranchName}"`);
+                if (!base) {
+                    return;
+                }
+                args = [base, "-b", newBranchName];
+                branchName = newBranchName;
+            } else if (ref.type === "remotes") {
+                branchName = ref.ref.slice(ref.ref.indexOf("/") + 1);
+                args = [ref.ref, "--track", "-b", branchName];
+            } else {
+                args = [ref.ref];
+                branchName = ref.ref;
+            }
+
+            const templateLocation = worktreeLocation(repo, branchName);
+            let location: vscode.Uri;
+            if (shouldSkipLocationDialog(repo)) {
+                location = templateLocation;
+            } else {
+                const pickedLocation = await vscode.window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    canSelectMany: false,
+                    title: "Select Worktree Location",
+                    defaultUri: templateLocation,
+                });
+                if (!pickedLocation) {
+                    return;
+                }
+                location = pickedLocation[0];
             }
 
             const { error, stderr } = await viewProgress(async () => {
@@ -180,16 +550,17 @@ export async function activate(context: vscode.ExtensionContext) {
                     git_extension.git.path,
                     "worktree",
                     "add",
-                    cleanPath(pickedLocation[0].path),
-                    ref.ref,
-                    ...(ref.type === "remotes"
-                        ? ["--track", "-b", ref.ref.slice(ref.ref.indexOf("/") + 1)]
-                        : []),
+                    cleanPath(location.path),
+                    ...args,
                 );
             }, "Adding worktree");
             if (error) {
                 vscode.window.showErrorMessage(stderr);
+                return;
             }
+            // give it its index now, rather than when something first asks for it
+            await globalStateManager.worktreeIndex(location.path);
+            await runPostCreateHooks(repo, location, branchName);
         }),
         vscode.commands.registerCommand(
             "worktrees.remove-worktree",
@@ -206,16 +577,20 @@ export async function activate(context: vscode.ExtensionContext) {
                     treeitem = selected;
                 }
 
-                const worktreeDir = worktreeTreeIDToPath(treeitem);
                 const repo = findRepo(treeitem);
-                if (!repo) {
+                const worktree = findWorktree(treeitem);
+                if (!repo || !worktree) {
                     throw new Error(
                         "Failed to lookup the repository that this worktree belongs to.",
                     );
                 }
+                if (worktree.order === 0) {
+                    vscode.window.showErrorMessage("The main worktree can't be removed.");
+                    return;
+                }
 
                 const confirm = await vscode.window.showWarningMessage(
-                    "Are you sure you want to remove the worktree? This will delete the directory unless it is dirty or locked.",
+                    "Are you sure you want to remove the worktree? This will delete the directory.",
                     "No",
                     "Yes",
                 );
@@ -223,19 +598,7 @@ export async function activate(context: vscode.ExtensionContext) {
                     return;
                 }
 
-                const { error, stderr } = await viewProgress(
-                    repo.executeInRepo(
-                        git_extension.git.path,
-                        "worktree",
-                        "remove",
-                        cleanPath(worktreeDir),
-                    ),
-                    "Removing worktree",
-                );
-                if (error) {
-                    vscode.window.showErrorMessage(stderr);
-                    return;
-                }
+                await removeWorktree(repo, worktree);
             },
         ),
         vscode.commands.registerCommand(
@@ -284,7 +647,7 @@ export async function activate(context: vscode.ExtensionContext) {
             async (treeitem: RepositoryTreeID) => {
                 if (!isRepositoryTreeID(treeitem)) {
                     const chosen = await pickRepository(
-                        "Pin selected repository",
+                        "Pick Repository to Fetch",
                         undefined,
                         "There are no available repositories to fetch.",
                     );
@@ -299,95 +662,847 @@ export async function activate(context: vscode.ExtensionContext) {
                     return;
                 }
 
-                const { error, stdout, stderr } = await viewProgress(
-                    repo.executeInRepo(git_extension.git.path, "fetch"),
+                const options = await pickFetchOptions(repo);
+                if (!options) {
+                    return;
+                }
+                const { error, stderr } = await viewProgress(
+                    fetchRepo(repo, options),
                     "Running git fetch",
                 );
                 if (error) {
-                    vscode.window.showErrorMessage(stderr);
-                    return;
+                    await showFetchError(repo, stderr);
                 } else {
-                    vscode.window.showInformationMessage(stdout);
-                    return;
+                    vscode.window.showInformationMessage(
+                        `Fetched ${options.remote ?? "all remotes"}.`,
+                    );
                 }
             },
         ),
         vscode.commands.registerCommand(
             "worktrees.open-in-integrated-terminal",
             async (element?: WorktreeTreeID) => {
-                if (isWorktreeTreeID(element)) {
-                    vscode.window
-                        .createTerminal({ cwd: cleanPath(worktreeTreeIDToPath(element)) })
-                        .show();
+                if (!isWorktreeTreeID(element)) {
+                    const selected = await pickWorktree();
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    element = selected;
+                }
+                const worktree = findWorktree(element);
+                vscode.window
+                    .createTerminal({
+                        cwd: cleanPath(worktreeTreeIDToPath(element)),
+                        env: worktree && (await environmentFor(worktree)),
+                    })
+                    .show();
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.move-worktree",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree(
+                        "Pick Worktree to Move",
+                        (wt) => wt.order !== 0,
+                        "There are no worktrees that can be moved.",
+                    );
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const repo = findRepo(treeitem);
+                if (!repo) {
+                    throw new Error(
+                        "Failed to lookup the repository that this worktree belongs to.",
+                    );
+                }
+                const worktreeDir = worktreeTreeIDToPath(treeitem);
+
+                const { thisWindow, otherWindows } =
+                    await globalStateManager.windowsWithFolder(worktreeDir);
+                if (thisWindow || otherWindows > 0) {
+                    const where = [
+                        ...(thisWindow ? ["this window"] : []),
+                        ...(otherWindows > 0
+                            ? [`${otherWindows} other window${otherWindows === 1 ? "" : "s"}`]
+                            : []),
+                    ].join(" and ");
+                    const confirm = await vscode.window.showWarningMessage(
+                        `This worktree is open in ${where}. Windows with it open will lose access to their files once it moves.`,
+                        { modal: true },
+                        "Move Anyway",
+                    );
+                    if (confirm !== "Move Anyway") {
+                        return;
+                    }
+                }
+
+                const destination = await vscode.window.showSaveDialog({
+                    title: "Move Worktree To",
+                    saveLabel: "Move",
+                    defaultUri: repo.dotgitdir.with({ path: worktreeDir }),
+                });
+                if (!destination) {
+                    return;
+                }
+
+                const { error, stderr } = await viewProgress(
+                    repo.executeInRepo(
+                        git_extension.git.path,
+                        "worktree",
+                        "move",
+                        cleanPath(worktreeDir),
+                        cleanPath(destination.path),
+                    ),
+                    "Moving worktree",
+                );
+                if (error) {
+                    vscode.window.showErrorMessage(stderr);
+                    return;
+                }
+                await globalStateManager.moveWorktree(worktreeDir, destination.path);
+
+                if (thisWindow) {
+                    const reopen = await vscode.window.showInformationMessage(
+                        "The worktree open in this window was moved.",
+                        "Open New Location",
+                    );
+                    if (reopen === "Open New Location") {
+                        await vscode.commands.executeCommand("vscode.openFolder", destination);
+                    }
+                }
+            },
+        ),
+        registerCommitFileProvider(),
+        vscode.commands.registerCommand(
+            "worktrees.compare-worktree",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree(
+                        "Pick Worktree to Compare",
+                        (wt) => wt.prunable === undefined,
+                    );
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const repo = findRepo(treeitem);
+                const worktree = findWorktree(treeitem);
+                if (!repo || !worktree) {
+                    throw new Error(
+                        "Failed to lookup the repository that this worktree belongs to.",
+                    );
+                }
+                try {
+                    await compareWorktree(repo, worktree);
+                } catch (e) {
+                    vscode.window.showErrorMessage(`Failed to compare: ${e}`);
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.move-changes",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree(
+                        "Pick Worktree to Move Changes From",
+                        (wt) => wt.prunable === undefined,
+                    );
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const repo = findRepo(treeitem);
+                const worktree = findWorktree(treeitem);
+                if (!repo || !worktree) {
+                    throw new Error(
+                        "Failed to lookup the repository that this worktree belongs to.",
+                    );
+                }
+                await moveChanges(repo, worktree);
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.pull-worktree",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree(
+                        "Pick Worktree to Pull",
+                        (wt) => wt.branch !== undefined && wt.prunable === undefined,
+                        "There are no worktrees with a branch to pull.",
+                    );
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const worktree = findWorktree(treeitem);
+                if (!worktree) {
+                    throw new Error("Failed to lookup the worktree.");
+                }
+                await pullWorktree(worktree);
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.push-worktree",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree(
+                        "Pick Worktree to Push",
+                        (wt) => wt.branch !== undefined && wt.prunable === undefined,
+                        "There are no worktrees with a branch to push.",
+                    );
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const repo = findRepo(treeitem);
+                const worktree = findWorktree(treeitem);
+                if (!repo || !worktree) {
+                    throw new Error(
+                        "Failed to lookup the repository that this worktree belongs to.",
+                    );
+                }
+                await pushWorktree(repo, worktree);
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.sync-all-worktrees",
+            async (treeitem?: RepositoryTreeID) => {
+                if (!isRepositoryTreeID(treeitem)) {
+                    const chosen = await pickRepository("Pick Repository to Sync");
+                    if (!isRepositoryTreeID(chosen)) {
+                        return;
+                    }
+                    treeitem = chosen;
+                }
+                const repo = findRepo(treeitem);
+                if (!repo) {
+                    vscode.window.showErrorMessage("Was unable to find repository.");
+                    return;
+                }
+                await syncAllWorktrees(repo);
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.sort-worktrees",
+            async () => await pickSort(viewOptions),
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.filter-worktrees",
+            async () => await pickFilter(viewOptions),
+        ),
+        vscode.commands.registerCommand("worktrees.clear-worktree-filter", async () => {
+            await viewOptions.update({ filterText: "", filterStates: [] });
+        }),
+        vscode.commands.registerCommand("worktrees.group-by-prefix", async () => {
+            await viewOptions.update({ groupByPrefix: true });
+        }),
+        vscode.commands.registerCommand("worktrees.ungroup", async () => {
+            await viewOptions.update({ groupByPrefix: false });
+        }),
+        vscode.commands.registerCommand(
+            "worktrees.set-unpinned-display",
+            async () => await pickUnpinnedDisplay(viewOptions),
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.edit-worktree-metadata",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree("Pick Worktree to Edit");
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const worktree = findWorktree(treeitem);
+                if (!worktree) {
+                    vscode.window.showErrorMessage("Was unable to find worktree.");
+                    return;
+                }
+                await editWorktreeMetadata(worktree);
+            },
+        ),
+        vscode.commands.registerCommand("worktrees.go-to-worktree", goToWorktree),
+        vscode.commands.registerCommand(
+            "worktrees.run-in-worktrees",
+            async (treeitem?: RepositoryTreeID | WorktreeTreeID) => {
+                // start with the clicked worktree, or all worktrees of the clicked repository
+                if (isWorktreeTreeID(treeitem)) {
+                    const worktreePath = worktreeTreeIDToPath(treeitem);
+                    await runInWorktrees((wt) => wt.worktree === worktreePath);
+                } else if (isRepositoryTreeID(treeitem)) {
+                    const repo = findRepo(treeitem);
+                    await runInWorktrees((_, r) => r === repo);
                 } else {
-                    const worktree = await pickWorktree();
-                    if (worktree) {
-                        vscode.window
-                            .createTerminal({ cwd: cleanPath(worktreeTreeIDToPath(worktree)) })
-                            .show();
+                    await runInWorktrees();
+                }
+            },
+        ),
+        // these return values for `${command:...}` variables in launch.json and tasks.json
+        vscode.commands.registerCommand("worktrees.currentBranch", () => {
+            const current = activeWorktree();
+            if (!current) {
+                vscode.window.showErrorMessage(
+                    "There is no current worktree to get the branch of.",
+                );
+                return undefined;
+            }
+            // a detached HEAD has no branch, so use its commit instead
+            return current.worktree.branch
+                ? refDisplayName(current.worktree.branch)
+                : current.worktree.HEAD;
+        }),
+        vscode.commands.registerCommand("worktrees.currentWorktreePath", () => {
+            const current = activeWorktree();
+            if (!current) {
+                vscode.window.showErrorMessage("There is no current worktree to get the path of.");
+                return undefined;
+            }
+            return cleanPath(current.worktree.worktree);
+        }),
+        vscode.commands.registerCommand("worktrees.currentWorktreeIndex", async () => {
+            const current = activeWorktree();
+            if (!current) {
+                vscode.window.showErrorMessage("There is no current worktree to get the index of.");
+                return undefined;
+            }
+            const { worktree } = current;
+            const env = await worktreeEnvironment(
+                worktree.worktree,
+                undefined,
+                worktree.order === 0,
+            );
+            return env.WORKTREE_INDEX;
+        }),
+        vscode.commands.registerCommand("worktrees.currentPortOffset", async () => {
+            const current = activeWorktree();
+            if (!current) {
+                vscode.window.showErrorMessage(
+                    "There is no current worktree to get the port offset of.",
+                );
+                return undefined;
+            }
+            const { worktree } = current;
+            const env = await worktreeEnvironment(
+                worktree.worktree,
+                undefined,
+                worktree.order === 0,
+            );
+            return env.PORT_OFFSET;
+        }),
+        vscode.commands.registerCommand("worktrees.mainWorktreePath", () => {
+            const current = activeWorktree();
+            const main =
+                current && Array.from(current.repo.worktrees.values()).find((wt) => wt.order === 0);
+            if (!main) {
+                vscode.window.showErrorMessage(
+                    "There is no current repository to get the main worktree of.",
+                );
+                return undefined;
+            }
+            return cleanPath(main.worktree);
+        }),
+        vscode.commands.registerCommand("worktrees.pickWorktreePath", async () => {
+            const picked = await pickWorktree(
+                "Pick Worktree",
+                (wt) => wt.HEAD !== undefined && wt.prunable === undefined,
+            );
+            return picked && cleanPath(worktreeTreeIDToPath(picked));
+        }),
+        vscode.commands.registerCommand(
+            "worktrees.show-worktree-details",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree("Pick Worktree to Show Details Of");
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const repo = findRepo(treeitem);
+                const worktree = findWorktree(treeitem);
+                if (!repo || !worktree) {
+                    vscode.window.showErrorMessage("Was unable to find worktree.");
+                    return;
+                }
+                await showWorktreeDetails(repo, worktree);
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.create-branch-here",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree(
+                        "Pick Worktree to Create Branch In",
+                        (wt) => !wt.branch && wt.prunable === undefined,
+                        "There are no worktrees with a detached HEAD.",
+                    );
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const repo = findRepo(treeitem);
+                const worktree = findWorktree(treeitem);
+                if (!repo || !worktree) {
+                    vscode.window.showErrorMessage("Was unable to find worktree.");
+                    return;
+                }
+                await createBranchHere(repo, worktree);
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.checkout-branch",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree(
+                        "Pick Worktree to Check Out Branch In",
+                        (wt) => wt.prunable === undefined,
+                    );
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const repo = findRepo(treeitem);
+                const worktree = findWorktree(treeitem);
+                if (!repo || !worktree) {
+                    vscode.window.showErrorMessage("Was unable to find worktree.");
+                    return;
+                }
+                await checkoutBranch(repo, worktree);
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.lock-worktree",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree(
+                        "Pick Worktree to Lock",
+                        (wt) => wt.order !== 0 && wt.locked === undefined,
+                        "There are no worktrees that can be locked.",
+                    );
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
+                    }
+                    treeitem = selected;
+                }
+                const repo = findRepo(treeitem);
+                if (!repo) {
+                    throw new Error(
+                        "Failed to lookup the repository that this worktree belongs to.",
+                    );
+                }
+
+                const reason = await vscode.window.showInputBox({
+                    title: "Lock Worktree",
+                    prompt: "Reason for locking (optional)",
+                    placeHolder: "e.g. on a removable drive",
+                });
+                if (reason === undefined) {
+                    return;
+                }
+
+                const { error, stderr } = await repo.executeInRepo(
+                    git_extension.git.path,
+                    "worktree",
+                    "lock",
+                    ...(reason ? ["--reason", reason] : []),
+                    cleanPath(worktreeTreeIDToPath(treeitem)),
+                );
+                if (error) {
+                    vscode.window.showErrorMessage(stderr);
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            "worktrees.unlock-worktree",
+            async (treeitem?: WorktreeTreeID) => {
+                if (!isWorktreeTreeID(treeitem)) {
+                    const selected = await pickWorktree(
+                        "Pick Worktree to Unlock",
+                        (wt) => wt.locked !== undefined,
+                        "There are no locked worktrees.",
+                    );
+                    if (!isWorktreeTreeID(selected)) {
+                        return;
                     }
+                    treeitem = selected;
+                }
+                const repo = findRepo(treeitem);
+                if (!repo) {
+                    throw new Error(
+                        "Failed to lookup the repository that this worktree belongs to.",
+                    );
+                }
+
+                const { error, stderr } = await repo.executeInRepo(
+                    git_extension.git.path,
+                    "worktree",
+                    "unlock",
+                    cleanPath(worktreeTreeIDToPath(treeitem)),
+                );
+                if (error) {
+                    vscode.window.showErrorMessage(stderr);
                 }
             },
         ),
-        vscode.window.registerTreeDataProvider<TreeID>("git-worktrees", {
+        vscode.commands.registerCommand("worktrees.prune-worktrees", async (treeitem?: TreeID) => {
+            if (!treeitem) {
+                const chosen = await pickRepository("Pick repository to prune worktrees from");
+                if (!chosen) {
+                    return;
+                }
+                treeitem = chosen;
+            }
+            const repo = findRepo(treeitem);
+            if (!repo) {
+                vscode.window.showErrorMessage(`Unable to find repository (${treeitem})`);
+                return;
+            }
+
+            const dryRun = await repo.executeInRepo(
+                git_extension.git.path,
+                "worktree",
+                "prune",
+                "--dry-run",
+                "--verbose",
+            );
+            if (dryRun.error) {
+                vscode.window.showErrorMessage(dryRun.stderr);
+                return;
+            }
+            // `--verbose` reports what would be removed, but some git versions write it to stderr
+            // other lines (like warnings) aren't entries that would be pruned
+            const toPrune = `${dryRun.stdout}\n${dryRun.stderr}`
+                .split("\n")
+                .map((line) => line.trim())
+                .filter((line) => line.startsWith("Removing"));
+            if (toPrune.length === 0) {
+                vscode.window.showInformationMessage(
+                    `There are no stale worktrees to prune in ${repoName(repo.dotgitdir)}.`,
+                );
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                `Prune ${toPrune.length} stale worktree entr${toPrune.length === 1 ? "y" : "ies"}?`,
+                { modal: true, detail: toPrune.join("\n") },
+                "Prune",
+            );
+            if (confirm !== "Prune") {
+                return;
+            }
+
+            const prunable = Array.from(repo.worktrees.values())
+                .filter((wt) => wt.prunable !== undefined)
+                .map((wt) => wt.worktree);
+            const { error, stderr } = await viewProgress(
+                repo.executeInRepo(git_extension.git.path, "worktree", "prune", "--verbose"),
+                "Pruning worktrees",
+            );
+            if (error) {
+                vscode.window.showErrorMessage(stderr);
+                return;
+            }
+            await globalStateManager.forgetWorktrees(...prunable);
+        }),
+    );
+
+    const treeView = vscode.window.createTreeView<TreeID>("git-worktrees", {
+        treeDataProvider: {
             onDidChangeTreeData: updateEvent.event,
             async getTreeItem(element: TreeID): Promise<vscode.TreeItem> {
                 if (isWorktreeTreeID(element)) {
                     const worktree = findWorktree(element);
-                    const treeitem = new vscode.TreeItem(
-                        refDisplayName(worktree?.branch ?? worktree?.HEAD ?? "ERROR: NO DATA"),
+                    // the directory of a prunable worktree is gone, so there is no status to get
+                    const status =
+                        worktree?.prunable === undefined
+                            ? findRepo(element)?.status.get(worktreeTreeIDToPath(element))
+                            : undefined;
+                    const metadata = globalStateManager.getMetadata(worktreeTreeIDToPath(element));
+                    const branchName = refDisplayName(
+                        worktree?.branch ?? worktree?.HEAD ?? "ERROR: NO DATA",
                     );
-                    treeitem.iconPath = new vscode.ThemeIcon("git-branch");
-                    treeitem.contextValue = "worktrees:worktree";
-                    treeitem.description = element.slice(element.lastIndexOf("/") + 1);
-                    treeitem.tooltip = worktree?.HEAD ?? worktree?.branch ?? treeitem.description;
+                    const treeitem = new vscode.TreeItem(metadata.alias ?? branchName);
+                    const isOpen = openWorktreePaths().has(worktreeTreeIDToPath(element));
+                    const folderName = element.slice(element.lastIndexOf("/") + 1);
+                    const summary = status ? statusSummary(status) : "";
+                    treeitem.description = [
+                        isOpen ? "(current)" : "",
+                        metadata.alias ? branchName : "",
+                        folderName,
+                        summary,
+                        metadata.note ?? "",
+                    ]
+                        .filter((part) => part.length > 0)
+                        .join("  ");
+                    // the tooltip is left for `resolveTreeItem`, since it takes a few git commands
+
+                    if (worktree?.prunable !== undefined) {
+                        treeitem.iconPath = new vscode.ThemeIcon(
+                            "warning",
+                            new vscode.ThemeColor("list.warningForeground"),
+                        );
+                        treeitem.contextValue = "worktrees:worktree-prunable";
+                    } else if (worktree?.locked !== undefined) {
+                        treeitem.iconPath = new vscode.ThemeIcon("lock");
+                    } else {
+                        // a chosen color label takes precedence over the dirty highlight
+                        treeitem.iconPath = new vscode.ThemeIcon(
+                            isOpen
+                                ? "folder-active"
+                                : worktree?.branch
+                                  ? "git-branch"
+                                  : "git-commit",
+                            (worktree && worktreeColor(worktree)) ??
+                                (status && isDirty(status)
+                                    ? new vscode.ThemeColor(
+                                          "gitDecoration.modifiedResourceForeground",
+                                      )
+                                    : undefined),
+                        );
+                    }
+                    if (worktree?.prunable === undefined) {
+                        // e.g. `worktrees:worktree-main-detached`, so menus can match any combination.
+                        // git can't lock or move the main worktree, so its menu leaves those out.
+                        treeitem.contextValue = [
+                            "worktrees:worktree",
+                            worktree?.order === 0 ? "-main" : "",
+                            worktree?.branch ? "" : "-detached",
+                            worktree?.locked !== undefined ? "-locked" : "",
+                        ].join("");
+                    }
 
                     return treeitem;
+                } else if (element === "section:discovered") {
+                    const treeitem = new vscode.TreeItem(
+                        "Discovered",
+                        vscode.TreeItemCollapsibleState.Collapsed,
+                    );
+                    treeitem.iconPath = new vscode.ThemeIcon("search");
+                    treeitem.contextValue = "worktrees:section-discovered";
+                    treeitem.tooltip =
+                        "Repositories found in the worktrees.discovery.roots folders";
+                    return treeitem;
                 } else if (isRepositoryTreeID(element)) {
+                    const repo = findRepo(element);
+                    const isPinned = globalStateManager.isPinned(repositoryTreeIDToUri(element));
                     const treeitem = new vscode.TreeItem(
                         repoName(element),
-                        vscode.TreeItemCollapsibleState.Expanded,
+                        (repo && isDiscoveredOnly(repo)) ||
+                        (!isPinned && viewOptions.options.unpinnedRepos === "collapsed")
+                            ? vscode.TreeItemCollapsibleState.Collapsed
+                            : vscode.TreeItemCollapsibleState.Expanded,
                     );
                     treeitem.iconPath = new vscode.ThemeIcon("repo");
-                    const stringUri = element.slice("repository:".length);
-                    treeitem.contextValue = globalStateManager.isPinned(stringUri)
+                    if (repo?.isBare) {
+                        treeitem.description = "bare";
+                    }
+                    treeitem.tooltip = repositoryTreeIDToUri(element).path;
+                    treeitem.contextValue = isPinned
                         ? "worktrees:repo-pinned"
                         : "worktrees:repo-unpinned";
                     return treeitem;
+                } else if (isGroupTreeID(element)) {
+                    const { prefix } = parseGroupTreeID(element);
+                    const treeitem = new vscode.TreeItem(
+                        `${prefix}/`,
+                        vscode.TreeItemCollapsibleState.Expanded,
+                    );
+                    treeitem.iconPath = new vscode.ThemeIcon("folder");
+                    treeitem.contextValue = "worktrees:group";
+                    return treeitem;
                 }
                 throw new Error(`Invalid tree item: ${element}`);
             },
-            getChildren(element?: TreeID): vscode.ProviderResult<TreeID[]> {
+            async resolveTreeItem(
+                item: vscode.TreeItem,
+                element: TreeID,
+            ): Promise<vscode.TreeItem> {
+                // only properties left undefined by `getTreeItem` can be filled in here
+                if (isWorktreeTreeID(element)) {
+                    const repo = findRepo(element);
+                    const worktree = findWorktree(element);
+                    if (repo && worktree) {
+                        const details = await getWorktreeDetails(repo, worktree);
+                        const detached =
+                            !worktree.branch && worktree.prunable === undefined
+                                ? await describeDetachedHead(worktree)
+                                : undefined;
+                        item.tooltip = detailsTooltip(details, detached);
+                    }
+                }
+                return item;
+            },
+            async getChildren(element?: TreeID): Promise<TreeID[]> {
                 if (!element) {
-                    return repos.map((r) => `repository:${r.dotgitdir.toString()}` as const);
+                    const items: TreeID[] = [];
+                    let hasDiscovered = false;
+                    for (const repo of repos) {
+                        if (!(await isRepoVisible(repo))) {
+                            continue;
+                        } else if (isDiscoveredOnly(repo)) {
+                            hasDiscovered = true;
+                        } else {
+                            items.push(`repository:${repo.dotgitdir.toString()}`);
+                        }
+                    }
+                    if (hasDiscovered) {
+                        items.push("section:discovered");
+                    }
+                    return items;
+                } else if (element === "section:discovered") {
+                    const items: RepositoryTreeID[] = [];
+                    for (const repo of repos) {
+                        if (isDiscoveredOnly(repo) && (await isRepoVisible(repo))) {
+                            items.push(`repository:${repo.dotgitdir.toString()}`);
+                        }
+                    }
+                    return items;
                 } else if (isWorktreeTreeID(element)) {
                     return [];
+                } else if (isGroupTreeID(element)) {
+                    const repo = findRepo(element);
+                    if (!repo) {
+                        throw new Error(`This repository does not seem to exist: ${element}`);
+                    }
+                    const { prefix } = parseGroupTreeID(element);
+                    return (await visibleWorktrees(repo, prefix)).map(
+                        (wt) => `worktree:${wt.worktree}` as const,
+                    );
                 } else if (isRepositoryTreeID(element)) {
                     const repo = findRepo(element);
                     if (!repo) {
                         throw new Error(`This repository does not seem to exist: ${element}`);
                     }
-                    const items: WorktreeTreeID[] = [];
-                    for (const [k, v] of repo.worktrees) {
-                        if (v.HEAD) {
-                            items.push(`worktree:${k}`);
+                    const worktrees = await visibleWorktrees(repo);
+                    if (!viewOptions.options.groupByPrefix) {
+                        return worktrees.map((wt) => `worktree:${wt.worktree}` as const);
+                    }
+                    const prefixes = new Set<string>();
+                    const ungrouped: WorktreeTreeID[] = [];
+                    for (const worktree of worktrees) {
+                        const prefix = branchPrefix(worktree);
+                        if (prefix === undefined) {
+                            ungrouped.push(`worktree:${worktree.worktree}`);
+                        } else {
+                            prefixes.add(prefix);
                         }
                     }
-                    return items;
+                    const groups = Array.from(prefixes)
+                        .sort((a, b) => a.localeCompare(b))
+                        .map((prefix) => `group:${prefix}:${repo.dotgitdir.toString()}` as const);
+                    return [...groups, ...ungrouped];
                 }
                 throw new Error(`Invalid tree item: ${element}`);
             },
+            getParent(element: TreeID): TreeID | undefined {
+                if (isWorktreeTreeID(element)) {
+                    const repo = findRepo(element);
+                    const worktree = findWorktree(element);
+                    if (!repo || !worktree) {
+                        return undefined;
+                    }
+                    const prefix = branchPrefix(worktree);
+                    return viewOptions.options.groupByPrefix && prefix !== undefined
+                        ? `group:${prefix}:${repo.dotgitdir.toString()}`
+                        : `repository:${repo.dotgitdir.toString()}`;
+                } else if (isGroupTreeID(element)) {
+                    return parseGroupTreeID(element).repository;
+                } else if (isRepositoryTreeID(element)) {
+                    const repo = findRepo(element);
+                    return repo && isDiscoveredOnly(repo) ? "section:discovered" : undefined;
+                }
+                return undefined;
+            },
+        },
+    });
+    context.subscriptions.push(
+        treeView,
+        vscode.commands.registerCommand("worktrees.reveal-current-worktree", async () => {
+            const current = activeWorktree();
+            if (!current) {
+                vscode.window.showInformationMessage(
+                    "This window doesn't have a worktree of a tracked repository open.",
+                );
+                return;
+            }
+            try {
+                await treeView.reveal(`worktree:${current.worktree.worktree}`, {
+                    select: true,
+                    focus: true,
+                });
+            } catch {
+                vscode.window.showInformationMessage(
+                    "The current worktree is hidden by the view's filter.",
+                );
+            }
         }),
-        globalStateManager,
         globalStateManager.event((ev) => {
             switch (ev.type) {
                 case "pins_changed":
                     ev.newPins.forEach(async (pin) => await trackRepo(pin, context));
                     updateEvent.fire(undefined);
+                    return;
+                case "metadata_changed":
+                    updateEvent.fire(undefined);
+                    return;
             }
         }),
     );
 
+    const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    statusBarItem.name = "Current Worktree";
+    statusBarItem.command = "worktrees.switch-to-worktree";
+    const updateStatusBarItem = () => {
+        const current = currentWorktree();
+        if (!current) {
+            statusBarItem.hide();
+            return;
+        }
+        const { repo, worktree } = current;
+        statusBarItem.text = `$(list-tree) ${refDisplayName(worktree.branch ?? worktree.HEAD ?? "")}`;
+        statusBarItem.tooltip = `Worktree of ${repoName(repo.dotgitdir)} at ${worktree.worktree}\nClick to switch to another worktree`;
+        statusBarItem.show();
+    };
+    context.subscriptions.push(
+        statusBarItem,
+        updateEvent.event(updateStatusBarItem),
+        vscode.workspace.onDidChangeWorkspaceFolders(updateStatusBarItem),
+    );
+
+    /** Sets context keys about the worktree open in this window, for menus and keybindings */
+    const updateContextKeys = () => {
+        const current = currentWorktree();
+        vscode.commands.executeCommand(
+            "setContext",
+            "worktrees.isLinkedWorktree",
+            current !== undefined && current.worktree.order !== 0,
+        );
+    };
+    context.subscriptions.push(
+        updateEvent.event(updateContextKeys),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            updateContextKeys();
+            // the current worktree is marked in the view
+            updateEvent.fire(undefined);
+        }),
+    );
+
+    const updateOpenFolders = async () =>
+        await globalStateManager.setOpenFolders(
+            (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.path),
+        );
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(updateOpenFolders));
+    await updateOpenFolders();
+
     for (const repository of git_extension.repositories) {
         const { error, stdout, stderr } = await execute(
             gitExecutable,
@@ -395,19 +1510,57 @@ export async function activate(context: vscode.ExtensionContext) {
             { cwd: repository.rootUri.path },
         );
         if (error) {
+            // skip just this repository, so activate still finishes and returns the API
             vscode.window.showErrorMessage(stderr);
-            return;
+            continue;
         }
 
-        await trackRepo(repository.rootUri.with({ path: stdout.trim() }), context);
+        const dotgitdir = repository.rootUri.with({ path: stdout.trim() });
+        openedRepos.add(dotgitdir.toString());
+        await trackRepo(dotgitdir, context);
     }
 
     for (const pin of globalStateManager.latestPins) {
         await trackRepo(pin, context);
     }
+
+    /** Records that the worktrees open in this window were opened, for sorting by last opened */
+    const markOpenWorktrees = async () => {
+        const opened = (vscode.workspace.workspaceFolders ?? []).flatMap(
+            (folder) => findWorktreeContaining(folder.uri.path)?.worktree.worktree ?? [],
+        );
+        if (opened.length > 0) {
+            await globalStateManager.markOpened(...opened);
+        }
+    };
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(markOpenWorktrees));
+    await markOpenWorktrees();
+
+    let discoveryWatcher: vscode.Disposable | undefined;
+    const updateDiscovery = async () => {
+        discoveryWatcher?.dispose();
+        const config = getDiscoveryConfig();
+        discoveryWatcher = watchDiscoveryRoots(config, rescanRepositories);
+        await rescanRepositories();
+    };
+    context.subscriptions.push(
+        new vscode.Disposable(() => discoveryWatcher?.dispose()),
+        vscode.workspace.onDidChangeConfiguration(async (e) => {
+            if (e.affectsConfiguration("worktrees.discovery")) {
+                await updateDiscovery();
+            }
+        }),
+    );
+    await updateDiscovery();
+    context.subscriptions.push(
+        new AutoFetcher(() => repos.filter((repo) => globalStateManager.isPinned(repo.dotgitdir))),
+    );
     logger.info("Reached the end of activate()");
+    return createExtensionExports(context);
 }
 
-export function deactivate() {
+export async function deactivate() {
     logger.info("Deactivating.");
+    // disposed here rather than with the subscriptions, so VS Code waits for this window's record to be removed
+    await globalStateManager?.dispose();
 }
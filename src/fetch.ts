@@ -0,0 +1,200 @@
+import * as vscode from "vscode";
+import { gitExecutable, logger } from "./extension";
+import { ExecuteResult } from "./execute";
+import { Repo } from "./repo";
+import { repoName } from "./util";
+
+export interface FetchOptions {
+    /** The remote to fetch, or undefined for all remotes */
+    remote?: string;
+    prune: boolean;
+    tags: boolean;
+}
+
+export function getFetchConfig(): { prune: boolean; tags: boolean } {
+    const config = vscode.workspace.getConfiguration("worktrees.fetch");
+    return {
+        prune: config.get<boolean>("prune") ?? false,
+        tags: config.get<boolean>("tags") ?? false,
+    };
+}
+
+export async function fetchRepo(
+    repo: Readonly<Repo>,
+    options: FetchOptions,
+): Promise<ExecuteResult> {
+    return await repo.executeInRepo(
+        gitExecutable,
+        "fetch",
+        ...(options.prune ? ["--prune"] : []),
+        ...(options.tags ? ["--tags"] : []),
+        ...(options.remote ? [options.remote] : ["--all"]),
+    );
+}
+
+/** Known fetch failures, and a more helpful description of each */
+const FETCH_ERRORS: [RegExp, string][] = [
+    [
+        /Could not resolve host|unable to access|Connection (timed out|refused)/i,
+        "Could not connect to the remote. Check your network connection.",
+    ],
+    [
+        /Authentication failed|Permission denied|could not read Username|terminal prompts disabled/i,
+        "Authentication with the remote failed. Check your credentials.",
+    ],
+    [
+        /does not appear to be a git repository|repository '.*' not found/i,
+        "The remote repository could not be found. Check the remote's URL.",
+    ],
+    [/No remote repository specified|No such remote/i, "The remote does not exist."],
+    [/couldn't find remote ref/i, "A ref to fetch does not exist on the remote."],
+    [
+        /would clobber existing tag/i,
+        "A tag on the remote conflicts with a local tag of the same name.",
+    ],
+];
+
+/** Turns the stderr of a failed `git fetch` into a short explanation */
+export function describeFetchError(stderr: string): string {
+    for (const [pattern, description] of FETCH_ERRORS) {
+        if (pattern.test(stderr)) {
+            return description;
+        }
+    }
+    const firstError = stderr
+        .split("\n")
+        .map((line) => line.trim())
+        .find((line) => /^(fatal|error):/.test(line));
+    return firstError ?? "git fetch failed.";
+}
+
+/** Shows a fetch error, with a button to see the full output in the log */
+export async function showFetchError(repo: Readonly<Repo>, stderr: string) {
+    const choice = await vscode.window.showErrorMessage(
+        `Failed to fetch ${repoName(repo.dotgitdir)}: ${describeFetchError(stderr)}`,
+        "Show Log",
+    );
+    if (choice === "Show Log") {
+        logger.show();
+    }
+}
+
+type RemoteItem = vscode.QuickPickItem & { remote?: string };
+type FlagItem = vscode.QuickPickItem & { flag: "prune" | "tags" };
+
+/**
+ * Asks which remote to fetch and with which options.
+ * The options start out as the `worktrees.fetch.*` settings.
+ */
+export async function pickFetchOptions(repo: Readonly<Repo>): Promise<FetchOptions | undefined> {
+    const { error, stdout, stderr } = await repo.executeInRepo(gitExecutable, "remote");
+    if (error) {
+        vscode.window.showErrorMessage(stderr);
+        return undefined;
+    }
+    const remotes = stdout.split("\n").filter((r) => r.length > 0);
+    if (remotes.length === 0) {
+        vscode.window.showWarningMessage("This repository has no remotes to fetch from.");
+        return undefined;
+    }
+
+    let remote: string | undefined;
+    if (remotes.length > 1) {
+        const picked = await vscode.window.showQuickPick<RemoteItem>(
+            [
+                { label: "$(globe) All remotes", remote: undefined },
+                ...remotes.map((r) => ({ label: r, remote: r })),
+            ],
+            { title: `Fetch ${repoName(repo.dotgitdir)} from...` },
+        );
+        if (!picked) {
+            return undefined;
+        }
+        remote = picked.remote;
+    } else {
+        remote = remotes[0];
+    }
+
+    const defaults = getFetchConfig();
+    const flags = await vscode.window.showQuickPick<FlagItem>(
+        [
+            {
+                label: "--prune",
+                detail: "Remove remote-tracking branches that no longer exist on the remote",
+                picked: defaults.prune,
+                flag: "prune",
+            },
+            {
+                label: "--tags",
+                detail: "Fetch all tags from the remote",
+                picked: defaults.tags,
+                flag: "tags",
+            },
+        ],
+        { title: "Fetch Options", canPickMany: true },
+    );
+    if (!flags) {
+        return undefined;
+    }
+    return {
+        remote,
+        prune: flags.some((f) => f.flag === "prune"),
+        tags: flags.some((f) => f.flag === "tags"),
+    };
+}
+
+/**
+ * Periodically fetches repositories in the background, as set by the `worktrees.autoFetch.*` settings.
+ * Failures are only logged, since nobody asked for this particular fetch.
+ */
+export class AutoFetcher implements vscode.Disposable {
+    private timer: NodeJS.Timeout | undefined;
+    private readonly subscriptions: vscode.Disposable[] = [];
+
+    /**
+     * @param getRepos Gets the repositories to fetch each time
+     */
+    constructor(private readonly getRepos: () => readonly Repo[]) {
+        this.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (
+                    e.affectsConfiguration("worktrees.autoFetch") ||
+                    e.affectsConfiguration("worktrees.fetch")
+                ) {
+                    this.restart();
+                }
+            }),
+        );
+        this.restart();
+    }
+
+    private restart() {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        const config = vscode.workspace.getConfiguration("worktrees.autoFetch");
+        if (!config.get<boolean>("enabled")) {
+            return;
+        }
+        const minutes = Math.max(1, config.get<number>("interval") ?? 15);
+        this.timer = setInterval(async () => await this.fetchAll(), minutes * 60 * 1000);
+        logger.info(`Automatically fetching pinned repositories every ${minutes} minutes`);
+    }
+
+    private async fetchAll() {
+        const options = { ...getFetchConfig(), remote: undefined };
+        for (const repo of this.getRepos()) {
+            const { error, stderr } = await fetchRepo(repo, options);
+            if (error) {
+                logger.warn(
+                    `Automatic fetch of ${repoName(repo.dotgitdir)} failed:`,
+                    describeFetchError(stderr),
+                );
+            }
+        }
+    }
+
+    dispose() {
+        clearInterval(this.timer);
+        this.subscriptions.forEach((d) => d.dispose());
+    }
+}
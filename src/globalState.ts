@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
-import { readFileUTF8, uriJoinPath, writeFileUTF8 } from "./util";
+import { isPathInside, isSamePath, readFileUTF8, uriJoinPath, writeFileUTF8 } from "./util";
 import { logger } from "./extension";
+import { cleanPath } from "./execute";
 
 interface GlobalStateEventBase {
     type: GlobalStateEvent["type"];
@@ -11,7 +12,54 @@ export interface GlobalStatePinsChangedEvent extends GlobalStateEventBase {
     readonly newPins: readonly vscode.Uri[];
 }
 
-export type GlobalStateEvent = GlobalStatePinsChangedEvent;
+export interface GlobalStateMetadataChangedEvent extends GlobalStateEventBase {
+    type: "metadata_changed";
+}
+
+export type GlobalStateEvent = GlobalStatePinsChangedEvent | GlobalStateMetadataChangedEvent;
+
+/** The colors a worktree can be labelled with, as theme color ids */
+export const WORKTREE_COLORS = {
+    Red: "charts.red",
+    Orange: "charts.orange",
+    Yellow: "charts.yellow",
+    Green: "charts.green",
+    Blue: "charts.blue",
+    Purple: "charts.purple",
+} as const;
+export type WorktreeColor = keyof typeof WORKTREE_COLORS;
+
+/** Details the user has attached to a worktree */
+export interface WorktreeMetadata {
+    /** Free text, e.g. "PR #123 review" or a link to a ticket */
+    note?: string;
+    color?: WorktreeColor;
+    /** Shown instead of the branch name */
+    alias?: string;
+}
+
+function isWorktreeMetadata(value: unknown): value is WorktreeMetadata {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return false;
+    }
+    const { note, color, alias } = value as Record<string, unknown>;
+    return (
+        (note === undefined || typeof note === "string") &&
+        (color === undefined || (typeof color === "string" && color in WORKTREE_COLORS)) &&
+        (alias === undefined || typeof alias === "string")
+    );
+}
+
+/** The folders a VS Code window has open, so other windows can know about them */
+interface WindowRecord {
+    folders: string[];
+    /** Timestamp of the last time the window updated its record */
+    lastSeen: number;
+}
+/** How often each window refreshes its record */
+const WINDOW_HEARTBEAT_MS = 60 * 1000;
+/** Windows that have not refreshed their record for this long are assumed to have closed without cleaning up */
+const WINDOW_STALE_MS = 5 * WINDOW_HEARTBEAT_MS;
 
 export class GlobalStateManager
     extends vscode.EventEmitter<GlobalStateEvent>
@@ -48,6 +96,274 @@ export class GlobalStateManager
         await this.writePins(filtered);
     }
 
+    /** Worktree metadata, keyed by the worktree's path */
+    private _latestMetadata: Record<string, WorktreeMetadata> = {};
+    private async writeMetadata(metadata: Record<string, WorktreeMetadata>) {
+        const metadataUri = uriJoinPath(this.uri, "metadata");
+        await writeFileUTF8(metadataUri, JSON.stringify(metadata));
+        logger.trace("Wrote new worktree metadata");
+    }
+    private metadataKey(worktreePath: string): string | undefined {
+        return Object.keys(this._latestMetadata).find((key) => isSamePath(key, worktreePath));
+    }
+    getMetadata(worktreePath: string): Readonly<WorktreeMetadata> {
+        const key = this.metadataKey(worktreePath);
+        return key === undefined ? {} : this._latestMetadata[key];
+    }
+    /** Changes some of a worktree's metadata. Empty or undefined values are removed. */
+    async updateMetadata(worktreePath: string, changes: Partial<WorktreeMetadata>) {
+        const key = this.metadataKey(worktreePath) ?? worktreePath;
+        const updated: Record<string, unknown> = { ...this._latestMetadata[key], ...changes };
+        for (const [field, value] of Object.entries(updated)) {
+            if (value === undefined || value === "") {
+                delete updated[field];
+            }
+        }
+        const metadata = { ...this._latestMetadata };
+        if (Object.keys(updated).length === 0) {
+            delete metadata[key];
+        } else {
+            metadata[key] = updated;
+        }
+        await this.writeMetadata(metadata);
+    }
+    /** Clears the metadata of worktrees */
+    async clearMetadata(...worktreePaths: string[]) {
+        const metadata = { ...this._latestMetadata };
+        let changed = false;
+        for (const path of worktreePaths) {
+            const key = this.metadataKey(path);
+            if (key !== undefined) {
+                delete metadata[key];
+                changed = true;
+            }
+        }
+        if (changed) {
+            await this.writeMetadata(metadata);
+        }
+    }
+
+    /** When each worktree was last opened in a window, keyed by the worktree's path */
+    private async readLastOpened(): Promise<Record<string, number>> {
+        try {
+            const lastOpened = JSON.parse(await readFileUTF8(uriJoinPath(this.uri, "lastOpened")));
+            if (
+                typeof lastOpened !== "object" ||
+                lastOpened === null ||
+                Array.isArray(lastOpened)
+            ) {
+                return {};
+            }
+            return lastOpened;
+        } catch {
+            return {};
+        }
+    }
+    /** Gets when each worktree was last opened in any window, as timestamps keyed by path */
+    async lastOpenedTimes(): Promise<Readonly<Record<string, number>>> {
+        return await this.readLastOpened();
+    }
+    /** Records that worktrees were just opened */
+    async markOpened(...worktreePaths: string[]) {
+        const lastOpened = await this.readLastOpened();
+        const now = Date.now();
+        for (const path of worktreePaths) {
+            for (const key of Object.keys(lastOpened)) {
+                if (isSamePath(key, path)) {
+                    delete lastOpened[key];
+                }
+            }
+            lastOpened[path] = now;
+        }
+        await writeFileUTF8(uriJoinPath(this.uri, "lastOpened"), JSON.stringify(lastOpened));
+    }
+
+    /** Each linked worktree's index, keyed by the worktree's path */
+    private async readIndexes(): Promise<Record<string, number>> {
+        try {
+            const indexes = JSON.parse(await readFileUTF8(uriJoinPath(this.uri, "indexes")));
+            if (typeof indexes !== "object" || indexes === null || Array.isArray(indexes)) {
+                return {};
+            }
+            return indexes;
+        } catch {
+            return {};
+        }
+    }
+    private indexesQueue: Promise<unknown> = Promise.resolve();
+    /**
+     * Reads and then writes the indexes, after any earlier changes to them are done. Otherwise
+     * worktrees given an index at the same time would all get the same one.
+     */
+    private updateIndexes<T>(
+        update: (indexes: Record<string, number>) => {
+            indexes?: Record<string, number>;
+            result: T;
+        },
+    ): Promise<T> {
+        const next = this.indexesQueue.then(async () => {
+            const { indexes, result } = update(await this.readIndexes());
+            if (indexes) {
+                await writeFileUTF8(uriJoinPath(this.uri, "indexes"), JSON.stringify(indexes));
+            }
+            return result;
+        });
+        this.indexesQueue = next.catch(() => undefined);
+        return next;
+    }
+    /**
+     * Gets a worktree's index, which stays the same for as long as the worktree exists.
+     * A worktree that doesn't have one yet is given the lowest unused index, starting at 1.
+     */
+    async worktreeIndex(worktreePath: string): Promise<number> {
+        return await this.updateIndexes((indexes) => {
+            const key = Object.keys(indexes).find((key) => isSamePath(key, worktreePath));
+            if (key !== undefined) {
+                return { result: indexes[key] };
+            }
+            const used = new Set(Object.values(indexes));
+            let index = 1;
+            while (used.has(index)) {
+                index++;
+            }
+            return { indexes: { ...indexes, [worktreePath]: index }, result: index };
+        });
+    }
+
+    /** Forgets everything stored about worktrees that no longer exist */
+    async forgetWorktrees(...worktreePaths: string[]) {
+        await this.clearMetadata(...worktreePaths);
+
+        const lastOpened = await this.readLastOpened();
+        const remaining = Object.fromEntries(
+            Object.entries(lastOpened).filter(
+                ([key]) => !worktreePaths.some((path) => isSamePath(key, path)),
+            ),
+        );
+        if (Object.keys(remaining).length < Object.keys(lastOpened).length) {
+            await writeFileUTF8(uriJoinPath(this.uri, "lastOpened"), JSON.stringify(remaining));
+        }
+
+        await this.updateIndexes((indexes) => {
+            const remaining = Object.fromEntries(
+                Object.entries(indexes).filter(
+                    ([key]) => !worktreePaths.some((path) => isSamePath(key, path)),
+                ),
+            );
+            const changed = Object.keys(remaining).length < Object.keys(indexes).length;
+            return { indexes: changed ? remaining : undefined, result: undefined };
+        });
+    }
+
+    /**
+     * Updates any stored state that refers to a worktree after it is moved.
+     *
+     * Pins refer to a repository's common `.git` directory, which does not change when a linked
+     * worktree moves, but repositories nested inside the worktree move along with it.
+     * Metadata, when it was last opened, and its index are keyed by the worktree's own path, so they
+     * follow the worktree (and any nested ones).
+     */
+    async moveWorktree(oldPath: string, newPath: string) {
+        const oldLength = cleanPath(oldPath).replace(/[\\/]+$/, "").length;
+        let changed = false;
+        const newPins = this.latestPins.map((pin) => {
+            if (!isPathInside(pin.path, oldPath)) {
+                return pin;
+            }
+            changed = true;
+            return pin.with({ path: newPath + cleanPath(pin.path).slice(oldLength) });
+        });
+        if (changed) {
+            await this.writePins(newPins);
+        }
+
+        const movePaths = <T>(record: Record<string, T>): Record<string, T> | undefined => {
+            let moved = false;
+            const result: Record<string, T> = {};
+            for (const [path, value] of Object.entries(record)) {
+                if (isPathInside(path, oldPath)) {
+                    result[newPath + cleanPath(path).slice(oldLength)] = value;
+                    moved = true;
+                } else {
+                    result[path] = value;
+                }
+            }
+            return moved ? result : undefined;
+        };
+        const newMetadata = movePaths(this._latestMetadata);
+        if (newMetadata) {
+            await this.writeMetadata(newMetadata);
+        }
+        const newLastOpened = movePaths(await this.readLastOpened());
+        if (newLastOpened) {
+            await writeFileUTF8(uriJoinPath(this.uri, "lastOpened"), JSON.stringify(newLastOpened));
+        }
+        await this.updateIndexes((indexes) => ({ indexes: movePaths(indexes), result: undefined }));
+    }
+
+    private readonly windowId = vscode.env.sessionId;
+    /** Each window's record is its own file, so windows writing at once don't overwrite each other */
+    private get windowsUri(): vscode.Uri {
+        return uriJoinPath(this.uri, "openWindows");
+    }
+    private async readWindows(): Promise<Record<string, WindowRecord>> {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(this.windowsUri);
+        } catch {
+            return {};
+        }
+        const windows: Record<string, WindowRecord> = {};
+        const now = Date.now();
+        for (const [id, type] of entries) {
+            if (type !== vscode.FileType.File) {
+                continue;
+            }
+            const recordUri = uriJoinPath(this.windowsUri, id);
+            try {
+                const record: WindowRecord = JSON.parse(await readFileUTF8(recordUri));
+                if (now - record.lastSeen > WINDOW_STALE_MS) {
+                    // its window closed without cleaning up
+                    await vscode.workspace.fs.delete(recordUri);
+                } else {
+                    windows[id] = record;
+                }
+            } catch {
+                // its window is writing or deleting it right now
+            }
+        }
+        return windows;
+    }
+    private latestOpenFolders: string[] = [];
+    /** Records which folders this window has open, so other windows can check it with {@link windowsWithFolder} */
+    async setOpenFolders(folders: readonly string[]) {
+        this.latestOpenFolders = [...folders];
+        const record: WindowRecord = { folders: this.latestOpenFolders, lastSeen: Date.now() };
+        await vscode.workspace.fs.createDirectory(this.windowsUri);
+        await writeFileUTF8(uriJoinPath(this.windowsUri, this.windowId), JSON.stringify(record));
+    }
+    private async removeWindow() {
+        try {
+            await vscode.workspace.fs.delete(uriJoinPath(this.windowsUri, this.windowId));
+        } catch {
+            // it was already removed as stale by another window
+        }
+    }
+    /** Counts how many VS Code windows (including this one) have a folder open */
+    async windowsWithFolder(path: string): Promise<{ thisWindow: boolean; otherWindows: number }> {
+        const windows = await this.readWindows();
+        let otherWindows = 0;
+        for (const [id, record] of Object.entries(windows)) {
+            if (id !== this.windowId && record.folders.some((f) => isSamePath(f, path))) {
+                otherWindows++;
+            }
+        }
+        return {
+            thisWindow: this.latestOpenFolders.some((f) => isSamePath(f, path)),
+            otherWindows,
+        };
+    }
+
     private constructor(globalStorageUri: vscode.Uri) {
         super();
 
@@ -76,18 +392,46 @@ export class GlobalStateManager
         }
     }
 
+    /** Updates the worktree metadata to the latest. Does not emit events. */
+    private async updateMetadataFromFile() {
+        const metadataUri = uriJoinPath(this.uri, "metadata");
+        try {
+            const metadataRaw = await readFileUTF8(metadataUri);
+            const metadataJson: unknown = JSON.parse(metadataRaw);
+            if (
+                typeof metadataJson !== "object" ||
+                metadataJson === null ||
+                Array.isArray(metadataJson)
+            ) {
+                throw new Error(`Invalid type for metadata: ${metadataRaw}`);
+            }
+            this._latestMetadata = {};
+            for (const [path, metadata] of Object.entries(metadataJson)) {
+                if (isWorktreeMetadata(metadata)) {
+                    this._latestMetadata[path] = metadata;
+                } else {
+                    logger.warn("Ignoring invalid metadata for worktree", path);
+                }
+            }
+        } catch {
+            this._latestMetadata = {};
+            await writeFileUTF8(metadataUri, "{}");
+        }
+    }
+
     static async init(globalStorageUri: vscode.Uri): Promise<GlobalStateManager> {
         const ret = new GlobalStateManager(globalStorageUri);
 
         await vscode.workspace.fs.createDirectory(ret.uri);
         await ret.updatePins();
+        await ret.updateMetadataFromFile();
         logger.info(
             "Initial pins",
             ret.latestPins.map((pin) => pin.toString()),
         );
 
         const watcher = vscode.workspace.createFileSystemWatcher(
-            new vscode.RelativePattern(ret.uri, "{,pins}"),
+            new vscode.RelativePattern(ret.uri, "{,pins,metadata}"),
             true,
             false,
             true,
@@ -108,6 +452,11 @@ export class GlobalStateManager
                             ret._latestPins.map((uri) => uri.toString()),
                         );
                         return;
+                    case "metadata":
+                        await ret.updateMetadataFromFile();
+                        ret.fire({ type: "metadata_changed" });
+                        logger.trace("Worktree metadata changed");
+                        return;
                     default:
                         // ignore other files
                         return;
@@ -115,10 +464,18 @@ export class GlobalStateManager
             }),
         );
 
+        const heartbeat = setInterval(
+            async () => await ret.setOpenFolders(ret.latestOpenFolders),
+            WINDOW_HEARTBEAT_MS,
+        );
+        ret.sub.push(new vscode.Disposable(() => clearInterval(heartbeat)));
+
         return ret;
     }
 
-    dispose(): void {
+    /** Resolves once this window's record has been removed */
+    async dispose(): Promise<void> {
         this.sub.forEach((d) => d.dispose());
+        await this.removeWindow();
     }
 }
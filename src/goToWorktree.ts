@@ -0,0 +1,120 @@
+import * as vscode from "vscode";
+import { globalStateManager, repos } from "./extension";
+import { cleanPath } from "./execute";
+import { BasicWorktreeData, Repo } from "./repo";
+import { worktreeColor, worktreeLabel } from "./metadata";
+import { isSamePath, refDisplayName, repoName } from "./util";
+
+interface WorktreeAction {
+    button: vscode.QuickInputButton;
+    run: (repo: Repo, worktree: BasicWorktreeData) => Thenable<unknown>;
+}
+
+const OPEN_HERE: WorktreeAction = {
+    button: { iconPath: new vscode.ThemeIcon("arrow-swap"), tooltip: "Open in This Window" },
+    run: (_, wt) =>
+        vscode.commands.executeCommand("worktrees.switch-to-worktree", `worktree:${wt.worktree}`),
+};
+const ACTIONS: WorktreeAction[] = [
+    OPEN_HERE,
+    {
+        button: { iconPath: new vscode.ThemeIcon("empty-window"), tooltip: "Open in New Window" },
+        run: (_, wt) =>
+            vscode.commands.executeCommand(
+                "worktrees.open-worktree-new-window",
+                `worktree:${wt.worktree}`,
+            ),
+    },
+    {
+        button: { iconPath: new vscode.ThemeIcon("terminal"), tooltip: "Open in Terminal" },
+        run: (_, wt) =>
+            vscode.commands.executeCommand(
+                "worktrees.open-in-integrated-terminal",
+                `worktree:${wt.worktree}`,
+            ),
+    },
+    {
+        button: {
+            iconPath: new vscode.ThemeIcon("folder-opened"),
+            tooltip: "Reveal in File Explorer",
+        },
+        run: (repo, wt) =>
+            vscode.commands.executeCommand(
+                "revealFileInOS",
+                repo.dotgitdir.with({ path: cleanPath(wt.worktree) }),
+            ),
+    },
+];
+
+type GoToItem = vscode.QuickPickItem & { repo: Repo; data: BasicWorktreeData };
+
+/**
+ * Shows every worktree of every tracked repository, most recently used first.
+ * Picking one opens it in this window, and each item has buttons for the other ways to open it.
+ */
+export async function goToWorktree() {
+    const lastOpened = Object.entries(await globalStateManager.lastOpenedTimes());
+    const lastUsed = (wt: BasicWorktreeData) =>
+        lastOpened.find(([path]) => isSamePath(path, wt.worktree))?.[1] ?? -Infinity;
+
+    const items: (GoToItem & { lastUsed: number })[] = repos.flatMap((repo) =>
+        Array.from(repo.worktrees.values())
+            .filter((wt) => wt.HEAD && wt.prunable === undefined)
+            .map((wt) => {
+                const color = worktreeColor(wt);
+                const label = worktreeLabel(wt);
+                const branch = refDisplayName(wt.branch ?? wt.HEAD ?? "");
+                const { note } = globalStateManager.getMetadata(wt.worktree);
+                return {
+                    repo,
+                    data: wt,
+                    lastUsed: lastUsed(wt),
+                    label,
+                    iconPath: color ? new vscode.ThemeIcon("circle-filled", color) : undefined,
+                    description: [repoName(repo.dotgitdir), label === branch ? "" : branch]
+                        .filter((part) => part.length > 0)
+                        .join("  "),
+                    detail: note ? `${wt.worktree}  ${note}` : wt.worktree,
+                    buttons: ACTIONS.map((action) => action.button),
+                };
+            }),
+    );
+    // a stable sort keeps repositories and worktrees in their usual order when never used
+    items.sort((a, b) => b.lastUsed - a.lastUsed);
+    if (items.length === 0) {
+        vscode.window.showWarningMessage("There are no worktrees to go to.");
+        return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<GoToItem>();
+    quickPick.title = "Go to Worktree";
+    quickPick.placeholder = "Search by branch, alias, repository, path, or note";
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    quickPick.items = items;
+
+    const run = async (action: WorktreeAction, item: GoToItem) => {
+        quickPick.hide();
+        await globalStateManager.markOpened(item.data.worktree);
+        await action.run(item.repo, item.data);
+    };
+    const subscriptions = [
+        quickPick.onDidAccept(async () => {
+            const [item] = quickPick.selectedItems;
+            if (item) {
+                await run(OPEN_HERE, item);
+            }
+        }),
+        quickPick.onDidTriggerItemButton(async ({ button, item }) => {
+            const action = ACTIONS.find((a) => a.button === button);
+            if (action) {
+                await run(action, item);
+            }
+        }),
+        quickPick.onDidHide(() => {
+            subscriptions.forEach((d) => d.dispose());
+            quickPick.dispose();
+        }),
+    ];
+    quickPick.show();
+}
@@ -0,0 +1,105 @@
+import * as vscode from "vscode";
+import { globalStateManager } from "./extension";
+import { WORKTREE_COLORS, WorktreeColor } from "./globalState";
+import { BasicWorktreeData, worktreeDisplayName } from "./repo";
+import { refDisplayName } from "./util";
+
+/** The name to show for a worktree: its alias if it has one, otherwise its branch or commit */
+export function worktreeLabel(worktree: Readonly<BasicWorktreeData>): string {
+    return (
+        globalStateManager.getMetadata(worktree.worktree).alias ??
+        refDisplayName(worktree.branch ?? worktree.HEAD ?? "NO NAME")
+    );
+}
+
+/** The theme color a worktree is labelled with, if any */
+export function worktreeColor(
+    worktree: Readonly<BasicWorktreeData>,
+): vscode.ThemeColor | undefined {
+    const color = globalStateManager.getMetadata(worktree.worktree).color;
+    return color ? new vscode.ThemeColor(WORKTREE_COLORS[color]) : undefined;
+}
+
+type FieldItem = vscode.QuickPickItem & { field: "note" | "color" | "alias" | "clear" };
+type ColorItem = vscode.QuickPickItem & { color?: WorktreeColor };
+
+/** Lets the user change the note, color label, or alias of a worktree */
+export async function editWorktreeMetadata(worktree: Readonly<BasicWorktreeData>) {
+    const metadata = globalStateManager.getMetadata(worktree.worktree);
+    const field = await vscode.window.showQuickPick<FieldItem>(
+        [
+            {
+                label: "$(note) Note",
+                description: metadata.note ?? "None",
+                field: "note",
+            },
+            {
+                label: "$(symbol-color) Color",
+                description: metadata.color ?? "None",
+                field: "color",
+            },
+            {
+                label: "$(tag) Alias",
+                description: metadata.alias ?? "None",
+                field: "alias",
+            },
+            { label: "$(clear-all) Clear All", field: "clear" },
+        ],
+        { title: `Edit ${worktreeDisplayName(worktree)}` },
+    );
+    if (!field) {
+        return;
+    }
+
+    switch (field.field) {
+        case "note": {
+            const note = await vscode.window.showInputBox({
+                title: "Worktree Note",
+                prompt: "Leave empty to remove the note",
+                placeHolder: "e.g. PR #123 review",
+                value: metadata.note,
+            });
+            if (note !== undefined) {
+                await globalStateManager.updateMetadata(worktree.worktree, { note: note.trim() });
+            }
+            return;
+        }
+        case "color": {
+            const color = await vscode.window.showQuickPick<ColorItem>(
+                [
+                    { label: "None", color: undefined },
+                    ...Object.keys(WORKTREE_COLORS).map((color) => ({
+                        label: color,
+                        iconPath: new vscode.ThemeIcon(
+                            "circle-filled",
+                            new vscode.ThemeColor(WORKTREE_COLORS[color as WorktreeColor]),
+                        ),
+                        picked: color === metadata.color,
+                        color: color as WorktreeColor,
+                    })),
+                ],
+                { title: "Worktree Color" },
+            );
+            if (color) {
+                await globalStateManager.updateMetadata(worktree.worktree, { color: color.color });
+            }
+            return;
+        }
+        case "alias": {
+            const alias = await vscode.window.showInputBox({
+                title: "Worktree Alias",
+                prompt: "Shown instead of the branch name. Leave empty to remove the alias.",
+                value: metadata.alias,
+            });
+            if (alias !== undefined) {
+                await globalStateManager.updateMetadata(worktree.worktree, {
+                    alias: alias.trim(),
+                });
+            }
+            return;
+        }
+        case "clear":
+            await globalStateManager.clearMetadata(worktree.worktree);
+            return;
+    }
+}
@@ -0,0 +1,141 @@
+import * as vscode from "vscode";
+import { gitExecutable } from "./extension";
+import { BasicWorktreeData, Repo, executeInWorktree, worktreeDisplayName } from "./repo";
+import { pickWorktree } from "./quickPickers";
+import { viewProgress } from "./util";
+import { getChangedFiles } from "./worktreeStatus";
+
+/**
+ * Finds the current `stash@{n}` name of a stash entry, since it changes as other entries are added and removed
+ * @param hash The commit hash of the stash entry
+ */
+async function stashName(repo: Repo, hash: string): Promise<string | undefined> {
+    const { error, stdout } = await repo.executeInRepo(
+        gitExecutable,
+        "stash",
+        "list",
+        "--format=%H",
+    );
+    if (error) {
+        return undefined;
+    }
+    const index = stdout.trim().split("\n").indexOf(hash);
+    return index < 0 ? undefined : `stash@{${index}}`;
+}
+
+type ChangedFileItem = vscode.QuickPickItem & { path: string };
+
+/**
+ * Moves uncommitted changes (optionally only some files) from one worktree to another by
+ * stashing them in the source and applying the stash in the target.
+ *
+ * If applying fails, the changes are left in the stash so nothing is lost.
+ */
+export async function moveChanges(repo: Repo, source: BasicWorktreeData) {
+    const changed = await getChangedFiles(source.worktree);
+    if (changed.length === 0) {
+        vscode.window.showInformationMessage("This worktree has no uncommitted changes to move.");
+        return;
+    }
+    const items: ChangedFileItem[] = changed.map((file) => ({
+        label: file.path,
+        description: file.code,
+        picked: true,
+        path: file.path,
+    }));
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: "Pick Changes to Move",
+    });
+    if (!selected || selected.length === 0) {
+        return;
+    }
+
+    const targetID = await pickWorktree(
+        `Move ${selected.length} file${selected.length === 1 ? "" : "s"} to Worktree`,
+        (wt, r) => r === repo && wt.worktree !== source.worktree && wt.prunable === undefined,
+        "There are no other worktrees in this repository.",
+    );
+    if (!targetID) {
+        return;
+    }
+    const target = repo.worktrees.get(targetID.slice("worktree:".length));
+    if (!target) {
+        return;
+    }
+
+    const message = `Moving changes from ${worktreeDisplayName(source)} to ${worktreeDisplayName(target)}`;
+    const previousStash = await executeInWorktree(
+        source,
+        gitExecutable,
+        "rev-parse",
+        "--verify",
+        "--quiet",
+        "stash@{0}",
+    );
+    const pathspec =
+        selected.length === changed.length ? [] : ["--", ...selected.map((s) => s.path)];
+    const stash = await viewProgress(
+        executeInWorktree(
+            source,
+            gitExecutable,
+            "stash",
+            "push",
+            "--include-untracked",
+            "--message",
+            message,
+            ...pathspec,
+        ),
+        "Stashing changes",
+    );
+    if (stash.error) {
+        vscode.window.showErrorMessage(`Failed to stash the changes: ${stash.stderr}`);
+        return;
+    }
+    const { error: revParseError, stdout: hash } = await executeInWorktree(
+        source,
+        gitExecutable,
+        "rev-parse",
+        "stash@{0}",
+    );
+    if (revParseError) {
+        vscode.window.showErrorMessage("Failed to find the stashed changes.");
+        return;
+    } else if (!previousStash.error && previousStash.stdout.trim() === hash.trim()) {
+        vscode.window.showInformationMessage("There were no changes to move.");
+        return;
+    }
+
+    const apply = await viewProgress(
+        executeInWorktree(target, gitExecutable, "stash", "apply", hash.trim()),
+        "Applying changes",
+    );
+    const name = (await stashName(repo, hash.trim())) ?? hash.trim().slice(0, 8);
+    if (apply.error) {
+        const conflicted = `${apply.stdout}\n${apply.stderr}`.includes("CONFLICT");
+        const choice = await vscode.window.showErrorMessage(
+            conflicted
+                ? `The changes conflicted with ${worktreeDisplayName(target)}. Resolve the conflicts there; the changes are also still saved as ${name} ("${message}").`
+                : `The changes could not be applied to ${worktreeDisplayName(target)}, so nothing there was changed. They have been removed from ${worktreeDisplayName(source)} but are still saved as ${name} ("${message}").`,
+            { modal: true, detail: apply.stderr },
+            "Restore to Source",
+        );
+        if (choice === "Restore to Source") {
+            // `pop` needs a `stash@{n}` name rather than a hash
+            const restore = await executeInWorktree(source, gitExecutable, "stash", "pop", name);
+            if (restore.error) {
+                vscode.window.showErrorMessage(
+                    `Failed to restore the changes: ${restore.stderr} They are still saved as ${name}.`,
+                );
+            }
+        }
+        return;
+    }
+
+    if (name.startsWith("stash@")) {
+        await executeInWorktree(target, gitExecutable, "stash", "drop", name);
+    }
+    vscode.window.showInformationMessage(
+        `Moved ${selected.length} file${selected.length === 1 ? "" : "s"} from ${worktreeDisplayName(source)} to ${worktreeDisplayName(target)}.`,
+    );
+}
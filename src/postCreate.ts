@@ -0,0 +1,157 @@
+import * as fs from "fs/promises";
+import path from "path";
+import * as vscode from "vscode";
+import { logger } from "./extension";
+import { cleanPath, executeShell } from "./execute";
+import { getPostCreateHooks } from "./config";
+import { Repo } from "./repo";
+import { refDisplayName, uriJoinPath } from "./util";
+import {
+    ENV_FILE_NAME,
+    getEnvironmentConfig,
+    worktreeEnvironment,
+    writeEnvFile,
+} from "./worktreeEnv";
+
+let setupOutput: vscode.OutputChannel | undefined;
+function getSetupOutput(): vscode.OutputChannel {
+    setupOutput ??= vscode.window.createOutputChannel("Git Worktrees: Setup");
+    return setupOutput;
+}
+
+/**
+ * Expands a file or glob relative to `root` into the matching paths relative to `root`.
+ * Plain paths are used as-is so whole directories (like `node_modules`) can be copied.
+ */
+async function expandPattern(root: vscode.Uri, pattern: string): Promise<string[]> {
+    if (!/[*?[\]{}]/.test(pattern)) {
+        return [pattern];
+    }
+    const found = await vscode.workspace.findFiles(new vscode.RelativePattern(root, pattern), null);
+    return found.map((uri) => path.posix.relative(root.path, uri.path));
+}
+
+/**
+ * Copies and symlinks files from the main worktree into a new worktree, then runs the setup
+ * commands, as configured by {@link getPostCreateHooks}. Can be cancelled from the progress notification.
+ * Also writes its `.env.worktree` file first, if `worktrees.environment.writeEnvFile` is on.
+ *
+ * @param worktree The location of the new worktree
+ * @param branch The branch (or other ref) checked out in the new worktree
+ */
+export async function runPostCreateHooks(repo: Repo, worktree: vscode.Uri, branch: string) {
+    if (getEnvironmentConfig().writeEnvFile) {
+        try {
+            await writeEnvFile(worktree, await worktreeEnvironment(worktree.path, branch, false));
+        } catch (e) {
+            logger.warn(`Failed to write ${ENV_FILE_NAME}:`, e);
+        }
+    }
+
+    const hooks = await getPostCreateHooks(repo);
+    if (
+        hooks.copy.length === 0 &&
+        hooks.symlink.length === 0 &&
+        hooks.commands.length === 0 &&
+        hooks.repositoryCommands.length === 0
+    ) {
+        return;
+    }
+
+    let commands = hooks.commands;
+    if (hooks.repositoryCommands.length > 0) {
+        // these come from a file in the repository, so make sure the user is okay with running them
+        const choice = await vscode.window.showWarningMessage(
+            "This repository's .vscode/worktrees.json wants to run setup commands in the new worktree.",
+            { modal: true, detail: hooks.repositoryCommands.join("\n") },
+            "Run Commands",
+            "Skip Commands",
+        );
+        // dismissing the dialog only skips these commands, not the rest of the setup
+        if (choice === "Run Commands") {
+            commands = [...commands, ...hooks.repositoryCommands];
+        }
+    }
+
+    const source = uriJoinPath(repo.dotgitdir, "..");
+    const output = getSetupOutput();
+    const name = refDisplayName(branch);
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `Setting up worktree "${name}"`,
+            cancellable: true,
+        },
+        async (progress, token) => {
+            for (const [patterns, link] of [
+                [hooks.copy, false],
+                [hooks.symlink, true],
+            ] as const) {
+                for (const pattern of patterns) {
+                    for (const file of await expandPattern(source, pattern)) {
+                        if (token.isCancellationRequested) {
+                            return;
+                        }
+                        progress.report({ message: `${link ? "Linking" : "Copying"} ${file}` });
+                        const from = uriJoinPath(source, file);
+                        const to = uriJoinPath(worktree, file);
+                        try {
+                            await vscode.workspace.fs.createDirectory(uriJoinPath(to, ".."));
+                            if (link) {
+                                const stat = await vscode.workspace.fs.stat(from);
+                                await fs.symlink(
+                                    cleanPath(from.path),
+                                    cleanPath(to.path),
+                                    stat.type & vscode.FileType.Directory ? "junction" : "file",
+                                );
+                            } else {
+                                await vscode.workspace.fs.copy(from, to, { overwrite: false });
+                            }
+                        } catch (e) {
+                            logger.warn(`Failed to ${link ? "link" : "copy"} ${file}:`, e);
+                            output.appendLine(`Failed to ${link ? "link" : "copy"} ${file}: ${e}`);
+                        }
+                    }
+                }
+            }
+
+            if (commands.length === 0) {
+                return;
+            } else if (hooks.runCommandsIn === "terminal") {
+                const terminal = vscode.window.createTerminal({
+                    name: `Worktree setup: ${name}`,
+                    cwd: cleanPath(worktree.path),
+                });
+                terminal.show();
+                for (const command of commands) {
+                    terminal.sendText(command);
+                }
+                return;
+            }
+
+            output.show(true);
+            output.appendLine(`==== Setting up ${worktree.path} ====`);
+            for (const command of commands) {
+                progress.report({ message: command });
+                output.appendLine(`> ${command}`);
+                const { exitCode, cancelled } = await executeShell(
+                    command,
+                    worktree.path,
+                    (text) => output.append(text),
+                    token,
+                );
+                if (cancelled) {
+                    output.appendLine("Setup was cancelled.");
+                    return;
+                } else if (exitCode !== 0) {
+                    output.appendLine(`Failed with exit code ${exitCode}.`);
+                    vscode.window.showErrorMessage(
+                        `Worktree setup command failed: ${command}. See the output for details.`,
+                    );
+                    return;
+                }
+            }
+            output.appendLine("Setup finished.");
+        },
+    );
+}
@@ -1,29 +1,69 @@
 import * as vscode from "vscode";
-import { WorktreeTreeID, RepositoryTreeID, repos, gitExecutable, logger } from "./extension";
+import {
+    WorktreeTreeID,
+    RepositoryTreeID,
+    repos,
+    gitExecutable,
+    globalStateManager,
+    logger,
+} from "./extension";
+import { worktreeColor, worktreeLabel } from "./metadata";
 import { BasicWorktreeData, Repo } from "./repo";
 import { refDisplayName, repoName } from "./util";
 
 type pickWorktreeItem = vscode.QuickPickItem & { worktree: WorktreeTreeID };
+export async function pickWorktree(
+    title?: string,
+    filter?: (worktree: Readonly<BasicWorktreeData>, repo: Readonly<Repo>) => boolean,
+    noOptionsMessage?: string,
+): Promise<WorktreeTreeID | undefined>;
+export async function pickWorktree(
+    title: string | undefined,
+    filter: ((worktree: Readonly<BasicWorktreeData>, repo: Readonly<Repo>) => boolean) | undefined,
+    noOptionsMessage: string | undefined,
+    canPickMany: true,
+): Promise<WorktreeTreeID[] | undefined>;
 export async function pickWorktree(
     title: string = "Pick Worktree",
     filter: (worktree: Readonly<BasicWorktreeData>, repo: Readonly<Repo>) => boolean = () => true,
     noOptionsMessage: string = "There are no matching worktrees.",
-): Promise<WorktreeTreeID | undefined> {
+    canPickMany: boolean = false,
+): Promise<WorktreeTreeID | WorktreeTreeID[] | undefined> {
     const options: pickWorktreeItem[] = repos.flatMap((repo) =>
         Array.from(repo.worktrees)
             .filter(([_, wt]) => filter(wt, repo))
-            .map(([_, wt]) => ({
-                worktree: `worktree:${wt.worktree}`,
-                label: refDisplayName(wt.branch ?? wt.HEAD ?? "NO NAME"),
-                description: wt.worktree,
-            })),
+            .map(([_, wt]) => {
+                const metadata = globalStateManager.getMetadata(wt.worktree);
+                const color = worktreeColor(wt);
+                return {
+                    worktree: `worktree:${wt.worktree}`,
+                    label: worktreeLabel(wt),
+                    // keep the branch searchable when an alias replaces it
+                    description: metadata.alias
+                        ? `${refDisplayName(wt.branch ?? wt.HEAD ?? "NO NAME")}  ${wt.worktree}`
+                        : wt.worktree,
+                    detail: metadata.note,
+                    iconPath: color ? new vscode.ThemeIcon("circle-filled", color) : undefined,
+                };
+            }),
     );
     if (options.length === 0) {
         vscode.window.showWarningMessage(noOptionsMessage);
         return undefined;
     }
+    if (canPickMany) {
+        const picked = await vscode.window.showQuickPick<pickWorktreeItem>(options, {
+            canPickMany: true,
+            matchOnDescription: true,
+            matchOnDetail: true,
+            title,
+        });
+        return picked?.map((item) => item.worktree);
+    }
     const picked = await vscode.window.showQuickPick<pickWorktreeItem>(options, {
         canPickMany: false,
+        matchOnDescription: true,
+        matchOnDetail: true,
         title,
     });
     return picked?.worktree;
@@ -59,14 +99,8 @@ export interface Ref {
     /** The ref name, e.g. "main" or "origin/main" */
     ref: string;
 }
-type pickRefItem = vscode.QuickPickItem &
-    ({ kind: vscode.QuickPickItemKind.Separator; ref?: Ref } | { ref: Ref });
-export async function pickRef(
-    repo: Readonly<Repo>,
-    title: string = "Pick Ref",
-    filter: (ref: Ref) => boolean = () => true,
-    noOptionsMessage: string = "There are no matching refs.",
-): Promise<Ref | undefined> {
+/** Lists all refs (excluding the stash) in the repository */
+export async function listRefs(repo: Readonly<Repo>): Promise<Ref[]> {
     const {
         error: showRefErr,
         stdout: showRefStdout,
@@ -75,7 +109,7 @@ export async function pickRef(
     if (showRefErr) {
         throw new Error(showRefStderr);
     }
-    const refs = showRefStdout
+    return showRefStdout
         .trim()
         .split("\n")
         .flatMap((r) => {
@@ -92,48 +126,155 @@ export async function pickRef(
                 type: result[2],
                 ref: result[3],
             } as const;
-        })
-        .filter(filter);
-    if (refs.length === 0) {
-        vscode.window.showWarningMessage(noOptionsMessage);
-        return undefined;
-    }
+        });
+}
 
-    const quickpickItems: pickRefItem[] = [
-        {
-            label: "Local",
-            kind: vscode.QuickPickItemKind.Separator,
-        },
-        ...refs
-            .filter((r) => r.type === "heads")
-            .map<pickRefItem>((r) => ({
-                label: r.ref ?? "UNKNOWN NAME",
-                description: r.hash,
-                ref: r,
-            })),
-        {
-            label: "Remote",
-            kind: vscode.QuickPickItemKind.Separator,
-        },
-        ...refs
-            .filter((r) => r.type === "remotes")
-            .map<pickRefItem>((r) => ({
-                label: r.ref ?? "UNKNOWN NAME",
-                description: r.hash,
-                ref: r,
-            })),
+type pickRefItem = vscode.QuickPickItem &
+    (
+        | { kind: vscode.QuickPickItemKind.Separator; ref?: Ref }
+        | { ref: Ref }
+        | { special: "new-branch" | "HEAD" | "commit" }
+    );
+function refQuickPickItems(refs: readonly Ref[]): pickRefItem[] {
+    const section = (label: string, type: string): pickRefItem[] => [
         {
-            label: "Tags",
+            label,
             kind: vscode.QuickPickItemKind.Separator,
         },
         ...refs
-            .filter((r) => r.type === "tags")
+            .filter((r) => r.type === type)
             .map<pickRefItem>((r) => ({
                 label: r.ref ?? "UNKNOWN NAME",
                 description: r.hash,
                 ref: r,
             })),
     ];
+    return [
+        ...section("Local", "heads"),
+        ...section("Remote", "remotes"),
+        ...section("Tags", "tags"),
+    ];
+}
+
+/** Returned by {@link pickRef} when the user chooses to create a new branch instead */
+export const NEW_BRANCH = Symbol("new-branch");
+
+export async function pickRef(
+    repo: Readonly<Repo>,
+    title?: string,
+    filter?: (ref: Ref) => boolean,
+    noOptionsMessage?: string,
+): Promise<Ref | undefined>;
+export async function pickRef(
+    repo: Readonly<Repo>,
+    title: string | undefined,
+    filter: ((ref: Ref) => boolean) | undefined,
+    noOptionsMessage: string | undefined,
+    offerNewBranch: true,
+): Promise<Ref | typeof NEW_BRANCH | undefined>;
+export async function pickRef(
+    repo: Readonly<Repo>,
+    title: string = "Pick Ref",
+    filter: (ref: Ref) => boolean = () => true,
+    noOptionsMessage: string = "There are no matching refs.",
+    offerNewBranch: boolean = false,
+): Promise<Ref | typeof NEW_BRANCH | undefined> {
+    const refs = (await listRefs(repo)).filter(filter);
+    if (refs.length === 0 && !offerNewBranch) {
+        vscode.window.showWarningMessage(noOptionsMessage);
+        return undefined;
+    }
+
+    const quickpickItems: pickRefItem[] = [
+        ...(offerNewBranch
+            ? [
+                  {
+                      label: "$(plus) New branch...",
+                      detail: "Create a new branch for the worktree",
+                      special: "new-branch",
+                  } as const,
+              ]
+            : []),
+        ...refQuickPickItems(refs),
+    ];
     const result = await vscode.window.showQuickPick(quickpickItems, { canPickMany: false, title });
+    if (result && "special" in result) {
+        return NEW_BRANCH;
+    }
     return result?.ref!;
 }
+
+/**
+ * Asks the user for the name of a new branch, validated with `git check-ref-format --branch`
+ * and checked against the existing local branches.
+ */
+export async function inputNewBranchName(
+    repo: Readonly<Repo>,
+    title: string = "New Branch Name",
+): Promise<string | undefined> {
+    const existing = new Set(
+        (await listRefs(repo)).filter((r) => r.type === "heads").map((r) => r.ref),
+    );
+    return await vscode.window.showInputBox({
+        title,
+        placeHolder: "e.g. feature/my-new-feature",
+        validateInput: async (value) => {
+            if (!value) {
+                return "A branch name is required.";
+            }
+            if (existing.has(value)) {
+                return `A branch named "${value}" already exists.`;
+            }
+            const { error } = await repo.executeInRepo(
+                gitExecutable,
+                "check-ref-format",
+                "--branch",
+                value,
+            );
+            if (error) {
+                return `"${value}" is not a valid branch name.`;
+            }
+            return undefined;
+        },
+    });
+}
+
+/**
+ * Picks a starting point for a new branch: `HEAD`, any local/remote branch or tag, or a commit
+ * entered by the user.
+ *
+ * @returns A commit-ish which can be passed to git, or `undefined` if cancelled.
+ */
+export async function pickBaseRef(
+    repo: Readonly<Repo>,
+    title: string = "Pick Base for New Branch",
+): Promise<string | undefined> {
+    const quickpickItems: pickRefItem[] = [
+        { label: "HEAD", description: "The current HEAD of the main worktree", special: "HEAD" },
+        { label: "$(git-commit) Commit...", detail: "Enter a commit hash", special: "commit" },
+        ...refQuickPickItems(await listRefs(repo)),
+    ];
+    const result = await vscode.window.showQuickPick(quickpickItems, { canPickMany: false, title });
+    if (!result) {
+        return undefined;
+    } else if ("special" in result) {
+        if (result.special !== "commit") {
+            return "HEAD";
+        }
+        return await vscode.window.showInputBox({
+            title: "Commit to Base the New Branch On",
+            placeHolder: "Commit hash",
+            validateInput: async (value) => {
+                const { error } = await repo.executeInRepo(
+                    gitExecutable,
+                    "rev-parse",
+                    "--verify",
+                    "--quiet",
+                    `${value}^{commit}`,
+                );
+                return error ? `"${value}" is not a commit.` : undefined;
+            },
+        });
+    }
+    return result.ref ? `refs/${result.ref.type}/${result.ref.ref}` : undefined;
+}
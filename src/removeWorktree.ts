@@ -0,0 +1,183 @@
+import * as vscode from "vscode";
+import { gitExecutable, globalStateManager } from "./extension";
+import { cleanPath } from "./execute";
+import { BasicWorktreeData, Repo, executeInWorktree } from "./repo";
+import { refDisplayName, viewProgress } from "./util";
+import { ChangedFile, getChangedFiles } from "./worktreeStatus";
+
+/** The most files to list in the dialog before truncating */
+const MAX_LISTED_FILES = 20;
+
+/**
+ * Removes a worktree. If git refuses because it is dirty or locked, the user is shown the
+ * uncommitted files and can choose to stash them, commit them, or force the removal.
+ *
+ * Afterwards, offers to delete the worktree's branch if it is fully merged.
+ */
+export async function removeWorktree(repo: Repo, worktree: BasicWorktreeData) {
+    const { error, stderr } = await viewProgress(
+        repo.executeInRepo(gitExecutable, "worktree", "remove", cleanPath(worktree.worktree)),
+        "Removing worktree",
+    );
+    if (error) {
+        // git's message only mentions the lock if there is one, so check for changes ourselves
+        let files: ChangedFile[];
+        try {
+            files = await getChangedFiles(worktree.worktree);
+        } catch (e) {
+            vscode.window.showErrorMessage(`${stderr}\n${e instanceof Error ? e.message : e}`);
+            return;
+        }
+        const isLocked = worktree.locked !== undefined;
+        if (files.length === 0 && !isLocked) {
+            vscode.window.showErrorMessage(stderr);
+            return;
+        }
+        if (!(await resolveAndForceRemove(repo, worktree, files, isLocked))) {
+            return;
+        }
+    }
+    await globalStateManager.forgetWorktrees(worktree.worktree);
+
+    if (worktree.branch) {
+        await offerDeleteMergedBranch(repo, worktree.branch);
+    }
+}
+
+/**
+ * Asks the user how to deal with a dirty and/or locked worktree, then removes it.
+ * @param files The worktree's uncommitted and untracked files
+ * @returns Whether the worktree was removed
+ */
+async function resolveAndForceRemove(
+    repo: Repo,
+    worktree: BasicWorktreeData,
+    files: readonly ChangedFile[],
+    isLocked: boolean,
+): Promise<boolean> {
+    const isDirty = files.length > 0;
+    const details: string[] = [];
+    if (isLocked) {
+        details.push(
+            `This worktree is locked${worktree.locked ? ` (${worktree.locked})` : ""}. Removing it will ignore the lock.`,
+        );
+    }
+    if (isDirty) {
+        details.push(
+            "Uncommitted and untracked files:",
+            ...files.slice(0, MAX_LISTED_FILES).map((f) => `${f.code} ${f.path}`),
+        );
+        if (files.length > MAX_LISTED_FILES) {
+            details.push(`...and ${files.length - MAX_LISTED_FILES} more`);
+        }
+    }
+
+    const STASH = "Stash Changes and Remove";
+    const COMMIT = "Commit as WIP and Remove";
+    const FORCE = isDirty ? "Discard Changes and Remove" : "Remove Anyway";
+    const options = isDirty
+        ? // a WIP commit on a detached HEAD would be lost as soon as the worktree is gone
+          worktree.branch
+            ? [STASH, COMMIT, FORCE]
+            : [STASH, FORCE]
+        : [FORCE];
+    const choice = await vscode.window.showWarningMessage(
+        isDirty
+            ? "This worktree has uncommitted changes."
+            : "This worktree is locked. Remove it anyway?",
+        { modal: true, detail: details.join("\n") },
+        ...options,
+    );
+    if (!choice) {
+        return false;
+    }
+
+    if (choice === STASH) {
+        const { error, stderr } = await viewProgress(
+            executeInWorktree(
+                worktree,
+                gitExecutable,
+                "stash",
+                "push",
+                "--include-untracked",
+                "--message",
+                `Changes from removed worktree ${worktree.worktree}`,
+            ),
+            "Stashing changes",
+        );
+        if (error) {
+            vscode.window.showErrorMessage(stderr);
+            return false;
+        }
+    } else if (choice === COMMIT) {
+        const { error, stderr } = await viewProgress(async () => {
+            const add = await executeInWorktree(worktree, gitExecutable, "add", "--all");
+            if (add.error) {
+                return add;
+            }
+            return await executeInWorktree(
+                worktree,
+                gitExecutable,
+                "commit",
+                "--no-verify",
+                "--message",
+                "WIP",
+            );
+        }, "Committing changes");
+        if (error) {
+            vscode.window.showErrorMessage(stderr);
+            return false;
+        }
+    }
+
+    // `--force` once ignores changes, twice also ignores a lock
+    const force = isLocked ? ["--force", "--force"] : choice === FORCE ? ["--force"] : [];
+    const { error, stderr } = await viewProgress(
+        repo.executeInRepo(
+            gitExecutable,
+            "worktree",
+            "remove",
+            ...force,
+            cleanPath(worktree.worktree),
+        ),
+        "Removing worktree",
+    );
+    if (error) {
+        vscode.window.showErrorMessage(stderr);
+        return false;
+    }
+    if (choice === STASH) {
+        vscode.window.showInformationMessage(
+            "The worktree's changes were saved to the stash. Use `git stash pop` in any worktree to restore them.",
+        );
+    }
+    return true;
+}
+
+/**
+ * If a branch is merged into `HEAD` or its upstream, asks whether to delete it.
+ * @param branch The full ref of the branch (e.g. `refs/heads/main`)
+ */
+async function offerDeleteMergedBranch(repo: Repo, branch: string) {
+    const name = refDisplayName(branch);
+    const isMergedInto = async (target: string) =>
+        !(await repo.executeInRepo(gitExecutable, "merge-base", "--is-ancestor", branch, target))
+            .error;
+    const merged = (await isMergedInto("HEAD")) || (await isMergedInto(`${branch}@{upstream}`));
+    if (!merged) {
+        return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+        `The branch "${name}" is fully merged. Do you want to delete it?`,
+        "Delete Branch",
+        "Keep Branch",
+    );
+    if (choice !== "Delete Branch") {
+        return;
+    }
+    const { error, stderr } = await repo.executeInRepo(gitExecutable, "branch", "--delete", name);
+    if (error) {
+        vscode.window.showErrorMessage(stderr);
+    }
+}
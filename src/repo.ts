@@ -1,6 +1,8 @@
 import * as vscode from "vscode";
 import { gitExecutable, logger, updateEvent } from "./extension";
 import { ExecuteResult, execute } from "./execute";
+import { WorktreeStatusTracker } from "./worktreeStatus";
+import { readFileUTF8, refDisplayName, uriJoinPath } from "./util";
 
 export interface BasicWorktreeData {
     /** The location of the worktree (e.g. `/myprojects/supercoolproject/worktree1`) */
@@ -21,6 +23,20 @@ function isValidBasicWorktreeData(item: object): item is BasicWorktreeData {
     return "worktree" in item && "HEAD" in item;
 }
 
+/** Runs a command (usually git) in a worktree's directory */
+export async function executeInWorktree(
+    worktree: Readonly<BasicWorktreeData>,
+    file: string,
+    ...args: string[]
+): Promise<ExecuteResult> {
+    return await execute(file, args, { cwd: worktree.worktree });
+}
+
+/** The branch of the worktree, or its commit if it is detached */
+export function worktreeDisplayName(worktree: Readonly<BasicWorktreeData>): string {
+    return refDisplayName(worktree.branch ?? worktree.HEAD ?? worktree.worktree);
+}
+
 export class Repo implements vscode.Disposable {
     /** The location of the .git directory */
     readonly dotgitdir: vscode.Uri;
@@ -29,6 +45,13 @@ export class Repo implements vscode.Disposable {
     get worktrees(): ReadonlyMap<string, BasicWorktreeData> {
         return this._worktrees;
     }
+    private _isBare = false;
+    /** Whether this is a bare repository (whose worktrees are all linked worktrees) */
+    get isBare(): boolean {
+        return this._isBare;
+    }
+    /** The uncommitted changes and ahead/behind counts of each worktree */
+    readonly status: WorktreeStatusTracker;
     private readonly subscriptions: vscode.Disposable[] = [];
 
     updateTreeItem() {
@@ -62,6 +85,8 @@ export class Repo implements vscode.Disposable {
                 }
             }
             if ("bare" in entries) {
+                // only the main worktree can be bare, and there is nothing in it to show
+                this._isBare = true;
                 continue;
             }
             if (!isValidBasicWorktreeData(entries)) {
@@ -90,12 +115,58 @@ export class Repo implements vscode.Disposable {
         for (const wt of newWorktrees) {
             this._worktrees.set(wt.worktree, wt);
         }
+        this.status.sync(this._worktrees.keys());
+        await this.invalidateStatusFor(uri);
         this.updateTreeItem();
     }
 
+    /**
+     * Invalidates the status of the worktrees affected by a change in the `.git` directory
+     * @param uri Should be in `${rootWorktree}/.git/**`
+     */
+    private async invalidateStatusFor(uri: vscode.Uri) {
+        const relative = uri.path.slice(this.dotgitdir.path.length).replace(/^\/+/, "");
+        if (relative === "index" || relative === "HEAD") {
+            const main = Array.from(this._worktrees.values()).find((wt) => wt.order === 0);
+            if (main) {
+                this.status.invalidate(main.worktree);
+            }
+            return;
+        }
+        const linked = /^worktrees\/([^/]+)\/(index|HEAD)$/.exec(relative);
+        if (linked) {
+            const worktreePath = await this.linkedWorktreePath(linked[1]);
+            if (worktreePath) {
+                this.status.invalidate(worktreePath);
+            }
+        } else if (relative.startsWith("refs/") || relative === "packed-refs") {
+            // upstream branches may have moved, changing ahead/behind counts
+            this.status.invalidateAll();
+        }
+    }
+
+    /**
+     * Finds the worktree that uses the administrative directory `.git/worktrees/<name>`
+     * @returns The path of the worktree, as in `git worktree list`
+     */
+    private async linkedWorktreePath(name: string): Promise<string | undefined> {
+        try {
+            const gitdir = (
+                await readFileUTF8(uriJoinPath(this.dotgitdir, "worktrees", name, "gitdir"))
+            ).trim();
+            const worktreePath = gitdir.replace(/[\\/]\.git$/, "");
+            return Array.from(this._worktrees.keys()).find(
+                (wt) => wt.toLowerCase() === worktreePath.toLowerCase(),
+            );
+        } catch {
+            return undefined;
+        }
+    }
+
     constructor(dotgitdir: vscode.Uri) {
         this.dotgitdir = dotgitdir;
         this._worktrees = new Map();
+        this.status = new WorktreeStatusTracker((path) => dotgitdir.with({ path }));
 
         const pattern = new vscode.RelativePattern(
             dotgitdir,
@@ -103,11 +174,20 @@ export class Repo implements vscode.Disposable {
         );
         const watcher = vscode.workspace.createFileSystemWatcher(pattern);
         logger.trace("Now watching", pattern);
+        // The index only affects status, so it doesn't need the worktree list to be reloaded
+        const indexWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(dotgitdir, "{index,worktrees/*/index}"),
+        );
         this.subscriptions.push(
+            this.status,
             watcher,
             watcher.onDidCreate(async (uri) => await this.handleUpdateWorktreeInfo(uri)),
             watcher.onDidChange(async (uri) => await this.handleUpdateWorktreeInfo(uri)),
             watcher.onDidDelete(async (uri) => await this.handleUpdateWorktreeInfo(uri)),
+            indexWatcher,
+            indexWatcher.onDidCreate(async (uri) => await this.invalidateStatusFor(uri)),
+            indexWatcher.onDidChange(async (uri) => await this.invalidateStatusFor(uri)),
+            indexWatcher.onDidDelete(async (uri) => await this.invalidateStatusFor(uri)),
         );
     }
 
@@ -117,6 +197,7 @@ export class Repo implements vscode.Disposable {
         for (const worktree of worktrees) {
             ret._worktrees.set(worktree.worktree, worktree);
         }
+        ret.status.sync(ret._worktrees.keys());
         return ret;
     }
 
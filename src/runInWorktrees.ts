@@ -0,0 +1,373 @@
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { findWorktreeContaining, logger, repos } from "./extension";
+import { cleanPath, executeShell } from "./execute";
+import { BasicWorktreeData, Repo, worktreeDisplayName } from "./repo";
+import { worktreeLabel } from "./metadata";
+import { repoName } from "./util";
+import { environmentFor } from "./worktreeEnv";
+
+let runOutput: vscode.OutputChannel | undefined;
+function getRunOutput(): vscode.OutputChannel {
+    runOutput ??= vscode.window.createOutputChannel("Git Worktrees: Run");
+    return runOutput;
+}
+
+interface RunConfig {
+    /** How many worktrees to run in at once */
+    concurrency: number;
+    showOutputIn: "output" | "terminal";
+}
+function getRunConfig(): RunConfig {
+    const config = vscode.workspace.getConfiguration("worktrees.runInWorktrees");
+    return {
+        concurrency: Math.max(1, config.get<number>("concurrency") ?? 4),
+        showOutputIn: config.get<string>("showOutputIn") === "terminal" ? "terminal" : "output",
+    };
+}
+
+/** Something to run in each worktree */
+interface Runnable {
+    name: string;
+    /** Gets the shell command to run, the folder to run it in, and any extra environment variables */
+    resolve: (worktree: Readonly<BasicWorktreeData>) => {
+        command: string;
+        cwd: string;
+        env?: Record<string, string>;
+    };
+}
+
+function quoteArg(arg: string | vscode.ShellQuotedString): string {
+    const value = typeof arg === "string" ? arg : arg.value;
+    if (!/[\s"'$`\\&|;<>()]/.test(value)) {
+        return value;
+    }
+    return process.platform === "win32"
+        ? `"${value.replace(/"/g, '""')}"`
+        : `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Replaces the task variables that make sense in another worktree.
+ * @returns The text, or undefined if it uses any other variable (like `${file}` or `${config:...}`)
+ */
+function substituteVariables(text: string, folder: string): string | undefined {
+    let unsupported = false;
+    const result = text.replace(/\$\{([^}]*)\}/g, (variable, name: string) => {
+        if (name === "workspaceFolder") {
+            return folder;
+        } else if (name === "workspaceFolderBasename") {
+            return path.basename(folder);
+        } else if (name === "userHome") {
+            return os.homedir();
+        } else if (name === "pathSeparator") {
+            return path.sep;
+        } else if (name.startsWith("env:")) {
+            return process.env[name.slice("env:".length)] ?? "";
+        }
+        unsupported = true;
+        return variable;
+    });
+    return unsupported ? undefined : result;
+}
+
+/**
+ * Turns a task into a command that can be run in any worktree.
+ * The task's workspace folder is mapped to the same folder within each worktree.
+ *
+ * @returns undefined if the task can't be run this way, e.g. because it depends on other tasks or
+ * uses variables that only make sense in this window
+ */
+function taskRunnable(task: vscode.Task): Runnable | undefined {
+    if (task.definition.dependsOn !== undefined) {
+        return undefined;
+    }
+    const execution = task.execution;
+    let command: string;
+    let options: vscode.ShellExecutionOptions | vscode.ProcessExecutionOptions | undefined;
+    if (execution instanceof vscode.ShellExecution) {
+        if (execution.commandLine !== undefined) {
+            command = execution.commandLine;
+        } else if (execution.command !== undefined) {
+            command = [execution.command, ...(execution.args ?? [])].map(quoteArg).join(" ");
+        } else {
+            return undefined;
+        }
+        options = execution.options;
+    } else if (execution instanceof vscode.ProcessExecution) {
+        command = [execution.process, ...execution.args].map(quoteArg).join(" ");
+        options = execution.options;
+    } else {
+        return undefined; // custom executions can't be moved to another folder
+    }
+    const texts = [command, options?.cwd ?? "", ...Object.values(options?.env ?? {})];
+    if (texts.some((text) => substituteVariables(text, "") === undefined)) {
+        return undefined;
+    }
+
+    // where the task's folder is within its worktree, e.g. `packages/server` in a monorepo
+    let relativeFolder = "";
+    if (typeof task.scope === "object") {
+        const found = findWorktreeContaining(task.scope.uri.path);
+        if (found) {
+            relativeFolder = path.posix.relative(found.worktree.worktree, task.scope.uri.path);
+        }
+    }
+    return {
+        name: task.name,
+        resolve: (worktree) => {
+            const folder = cleanPath(path.posix.join(worktree.worktree, relativeFolder));
+            // every variable was checked to be supported above
+            const substitute = (text: string) => substituteVariables(text, folder) ?? text;
+            return {
+                command: substitute(command),
+                cwd: options?.cwd ? path.resolve(folder, substitute(options.cwd)) : folder,
+                env:
+                    options?.env &&
+                    Object.fromEntries(
+                        Object.entries(options.env).map(([name, value]) => [
+                            name,
+                            substitute(value),
+                        ]),
+                    ),
+            };
+        },
+    };
+}
+
+type RunnableItem = vscode.QuickPickItem & { runnable?: Runnable };
+/** Asks whether to run a shell command or one of the workspace's tasks */
+async function pickRunnable(): Promise<Runnable | undefined> {
+    const tasks = (await vscode.tasks.fetchTasks()).flatMap((task) => {
+        const runnable = taskRunnable(task);
+        return runnable ? [{ task, runnable }] : [];
+    });
+    const items: RunnableItem[] = [
+        { label: "$(terminal) Shell Command..." },
+        ...(tasks.length > 0
+            ? [{ label: "Tasks", kind: vscode.QuickPickItemKind.Separator } as RunnableItem]
+            : []),
+        ...tasks.map(({ task, runnable }) => ({
+            label: task.name,
+            description: task.source,
+            runnable,
+        })),
+    ];
+    const picked = await vscode.window.showQuickPick(items, { title: "Run in Worktrees" });
+    if (!picked) {
+        return undefined;
+    } else if (picked.runnable) {
+        return picked.runnable;
+    }
+    const command = await vscode.window.showInputBox({
+        title: "Run in Worktrees",
+        prompt: "The shell command to run in each worktree",
+        placeHolder: "e.g. npm test",
+    });
+    if (!command) {
+        return undefined;
+    }
+    return { name: command, resolve: (worktree) => ({ command, cwd: worktree.worktree }) };
+}
+
+type WorktreeItem = vscode.QuickPickItem & { repo?: Repo; worktree?: BasicWorktreeData };
+async function pickWorktrees(
+    preselected: (wt: Readonly<BasicWorktreeData>, repo: Readonly<Repo>) => boolean,
+): Promise<{ repo: Repo; worktree: BasicWorktreeData }[] | undefined> {
+    const items: WorktreeItem[] = repos.flatMap((repo) => {
+        const worktrees = Array.from(repo.worktrees.values()).filter(
+            (wt) => wt.HEAD && wt.prunable === undefined,
+        );
+        if (worktrees.length === 0) {
+            return [];
+        }
+        return [
+            { label: repoName(repo.dotgitdir), kind: vscode.QuickPickItemKind.Separator },
+            ...worktrees.map((wt) => ({
+                label: worktreeLabel(wt),
+                description: wt.worktree,
+                picked: preselected(wt, repo),
+                repo,
+                worktree: wt,
+            })),
+        ];
+    });
+    if (items.length === 0) {
+        vscode.window.showWarningMessage("There are no worktrees to run in.");
+        return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+        title: "Pick Worktrees to Run In",
+        canPickMany: true,
+        matchOnDescription: true,
+    });
+    if (!picked || picked.length === 0) {
+        return undefined;
+    }
+    return picked.flatMap(({ repo, worktree }) => (repo && worktree ? [{ repo, worktree }] : []));
+}
+
+/**
+ * Runs a command in a new terminal, using a task so its exit code can be found.
+ * Throws if the task can't be started, e.g. because no folder is open.
+ */
+async function runInTerminal(
+    name: string,
+    command: string,
+    cwd: string,
+    env: Record<string, string> | undefined,
+    token: vscode.CancellationToken,
+): Promise<number | undefined> {
+    const task = new vscode.Task(
+        { type: "worktrees", worktree: cwd },
+        vscode.TaskScope.Workspace,
+        name,
+        "Git Worktrees",
+        new vscode.ShellExecution(command, { cwd, env }),
+    );
+    task.presentationOptions = {
+        panel: vscode.TaskPanelKind.New,
+        reveal: vscode.TaskRevealKind.Silent,
+    };
+    const execution = await vscode.tasks.executeTask(task);
+    return await new Promise((resolve) => {
+        let exitCode: number | undefined;
+        const subscriptions = [
+            vscode.tasks.onDidEndTaskProcess((e) => {
+                if (e.execution === execution) {
+                    exitCode = e.exitCode;
+                }
+            }),
+            // this also fires when the process never started, which has no exit code
+            vscode.tasks.onDidEndTask((e) => {
+                if (e.execution === execution) {
+                    subscriptions.forEach((d) => d.dispose());
+                    resolve(exitCode);
+                }
+            }),
+            token.onCancellationRequested(() => execution.terminate()),
+        ];
+    });
+}
+
+/**
+ * Runs a shell command or task in many worktrees at once, as many at a time as set by
+ * `worktrees.runInWorktrees.concurrency`, then shows which passed and failed.
+ *
+ * @param preselected Which worktrees to select at first
+ */
+export async function runInWorktrees(
+    preselected: (wt: Readonly<BasicWorktreeData>, repo: Readonly<Repo>) => boolean = () => false,
+) {
+    const targets = await pickWorktrees(preselected);
+    if (!targets) {
+        return;
+    }
+    const runnable = await pickRunnable();
+    if (!runnable) {
+        return;
+    }
+
+    const { concurrency, showOutputIn } = getRunConfig();
+    const output = getRunOutput();
+    if (showOutputIn === "output") {
+        output.show(true);
+        output.appendLine(`==== Running ${runnable.name} in ${targets.length} worktrees ====`);
+    }
+
+    const passed: string[] = [];
+    const failed: string[] = [];
+    const cancelled: string[] = [];
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `Running ${runnable.name}`,
+            cancellable: true,
+        },
+        async (progress, token) => {
+            const queue = [...targets];
+            const reportDone = () =>
+                progress.report({
+                    message: `${passed.length + failed.length + cancelled.length} of ${targets.length} done`,
+                    increment: 100 / targets.length,
+                });
+            const runNext = async () => {
+                for (let target = queue.shift(); target; target = queue.shift()) {
+                    const name = `${repoName(target.repo.dotgitdir)}: ${worktreeDisplayName(target.worktree)}`;
+                    if (token.isCancellationRequested) {
+                        cancelled.push(name);
+                        reportDone();
+                        continue;
+                    }
+                    const resolved = runnable.resolve(target.worktree);
+                    const { command, cwd } = resolved;
+                    const worktreeEnv = await environmentFor(target.worktree);
+                    // the task's own variables win over ours
+                    const env =
+                        worktreeEnv || resolved.env
+                            ? { ...worktreeEnv, ...resolved.env }
+                            : undefined;
+                    let exitCode: number | null | undefined;
+                    if (showOutputIn === "terminal") {
+                        try {
+                            exitCode = await runInTerminal(name, command, cwd, env, token);
+                        } catch (e) {
+                            failed.push(`${name} (${e instanceof Error ? e.message : e})`);
+                            reportDone();
+                            continue;
+                        }
+                    } else {
+                        // prefix every line, so output from worktrees running at once can be told apart
+                        let partialLine = "";
+                        const onOutput = (text: string) => {
+                            const lines = (partialLine + text).split("\n");
+                            partialLine = lines.pop() ?? "";
+                            for (const line of lines) {
+                                output.appendLine(`[${name}] ${line}`);
+                            }
+                        };
+                        const result = await executeShell(command, cwd, onOutput, token, env);
+                        if (partialLine) {
+                            output.appendLine(`[${name}] ${partialLine}`);
+                        }
+                        exitCode = result.cancelled ? undefined : result.exitCode;
+                    }
+
+                    if (token.isCancellationRequested && exitCode !== 0) {
+                        cancelled.push(name);
+                    } else if (exitCode === 0) {
+                        passed.push(name);
+                    } else {
+                        failed.push(`${name} (exit code ${exitCode ?? "unknown"})`);
+                    }
+                    reportDone();
+                }
+            };
+            await Promise.all(
+                Array.from({ length: Math.min(concurrency, targets.length) }, runNext),
+            );
+        },
+    );
+
+    const summary = [
+        `${passed.length} passed`,
+        ...(failed.length > 0 ? [`${failed.length} failed`] : []),
+        ...(cancelled.length > 0 ? [`${cancelled.length} cancelled`] : []),
+    ].join(", ");
+    const detail = [
+        ...(passed.length > 0 ? ["Passed:", ...passed.map((n) => `  ${n}`)] : []),
+        ...(failed.length > 0 ? ["Failed:", ...failed.map((n) => `  ${n}`)] : []),
+        ...(cancelled.length > 0 ? ["Cancelled:", ...cancelled.map((n) => `  ${n}`)] : []),
+    ].join("\n");
+    logger.info(`Ran ${runnable.name}:`, summary, `\n${detail}`);
+    if (showOutputIn === "output") {
+        output.appendLine(`==== ${summary} ====`);
+    }
+    const title = `${runnable.name}: ${summary}.`;
+    if (failed.length > 0) {
+        vscode.window.showErrorMessage(title, { modal: true, detail });
+    } else {
+        vscode.window.showInformationMessage(title, { modal: true, detail });
+    }
+}
@@ -0,0 +1,199 @@
+import * as vscode from "vscode";
+import { gitExecutable, logger } from "./extension";
+import { BasicWorktreeData, Repo, executeInWorktree, worktreeDisplayName } from "./repo";
+import { refDisplayName, repoName } from "./util";
+import { getWorktreeStatus, isDirty } from "./worktreeStatus";
+import { describeFetchError, fetchRepo, getFetchConfig } from "./fetch";
+
+type PullModeItem = vscode.QuickPickItem & { args: string[] };
+
+/** Pulls into a worktree, asking whether to merge or rebase */
+export async function pullWorktree(worktree: BasicWorktreeData) {
+    if (!worktree.branch) {
+        vscode.window.showErrorMessage("Cannot pull into a worktree with a detached HEAD.");
+        return;
+    }
+    const mode = await vscode.window.showQuickPick<PullModeItem>(
+        [
+            { label: "Merge", detail: "git pull --no-rebase", args: ["--no-rebase"] },
+            { label: "Rebase", detail: "git pull --rebase", args: ["--rebase"] },
+            { label: "Fast-forward only", detail: "git pull --ff-only", args: ["--ff-only"] },
+        ],
+        { title: `Pull into ${worktreeDisplayName(worktree)}` },
+    );
+    if (!mode) {
+        return;
+    }
+
+    const { error, stdout, stderr } = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `Pulling ${worktreeDisplayName(worktree)}`,
+        },
+        async () => await executeInWorktree(worktree, gitExecutable, "pull", ...mode.args),
+    );
+    if (error) {
+        vscode.window.showErrorMessage(
+            `Failed to pull ${worktreeDisplayName(worktree)}: ${stderr}`,
+        );
+    } else {
+        vscode.window.showInformationMessage(stdout.trim().split("\n").at(-1) || "Pulled.");
+    }
+}
+
+/** Pushes a worktree's branch, setting its upstream if it doesn't have one yet */
+export async function pushWorktree(repo: Repo, worktree: BasicWorktreeData) {
+    if (!worktree.branch) {
+        vscode.window.showErrorMessage("Cannot push a worktree with a detached HEAD.");
+        return;
+    }
+    const branch = refDisplayName(worktree.branch);
+    const args = ["push"];
+    const hasUpstream = !(
+        await executeInWorktree(
+            worktree,
+            gitExecutable,
+            "rev-parse",
+            "--abbrev-ref",
+            "--symbolic-full-name",
+            "@{upstream}",
+        )
+    ).error;
+    if (!hasUpstream) {
+        const { error, stdout, stderr } = await repo.executeInRepo(gitExecutable, "remote");
+        if (error) {
+            vscode.window.showErrorMessage(stderr);
+            return;
+        }
+        const remotes = stdout.split("\n").filter((r) => r.length > 0);
+        let remote: string | undefined;
+        if (remotes.length === 0) {
+            vscode.window.showErrorMessage("This repository has no remotes to push to.");
+            return;
+        } else if (remotes.length === 1) {
+            remote = remotes[0];
+        } else {
+            remote = await vscode.window.showQuickPick(remotes, {
+                title: `Publish ${branch} to...`,
+            });
+            if (!remote) {
+                return;
+            }
+        }
+        args.push("--set-upstream", remote, branch);
+    }
+
+    const { error, stderr } = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Pushing ${branch}` },
+        async () => await executeInWorktree(worktree, gitExecutable, ...args),
+    );
+    if (error) {
+        vscode.window.showErrorMessage(`Failed to push ${branch}: ${stderr}`);
+    } else {
+        vscode.window.showInformationMessage(
+            hasUpstream ? `Pushed ${branch}.` : `Published ${branch}.`,
+        );
+    }
+}
+
+/**
+ * Fetches, then fast-forwards every clean worktree whose branch is behind its upstream.
+ * Worktrees that can't be fast-forwarded are skipped, with the reason given in the summary.
+ */
+export async function syncAllWorktrees(repo: Repo) {
+    const updated: string[] = [];
+    const skipped: string[] = [];
+    const failed: string[] = [];
+    /** Worktrees whose upstream branch was deleted from the remote */
+    const gone: string[] = [];
+    const worktrees = Array.from(repo.worktrees.values());
+
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `Syncing worktrees of ${repoName(repo.dotgitdir)}`,
+            cancellable: true,
+        },
+        async (progress, token) => {
+            progress.report({ message: "Fetching" });
+            // upstreams can be on any remote, not just the default one
+            const fetch = await fetchRepo(repo, { ...getFetchConfig(), remote: undefined });
+            if (fetch.error) {
+                failed.push(`fetch: ${describeFetchError(fetch.stderr)}`);
+                return;
+            }
+
+            for (const worktree of worktrees) {
+                if (token.isCancellationRequested) {
+                    skipped.push(`${worktreeDisplayName(worktree)}: cancelled`);
+                    continue;
+                }
+                const name = worktreeDisplayName(worktree);
+                progress.report({ message: name, increment: 100 / worktrees.length });
+                if (worktree.prunable !== undefined) {
+                    skipped.push(`${name}: prunable`);
+                    continue;
+                } else if (!worktree.branch) {
+                    skipped.push(`${name}: detached HEAD`);
+                    continue;
+                }
+
+                let status;
+                try {
+                    status = await getWorktreeStatus(worktree.worktree);
+                } catch (e) {
+                    failed.push(`${name}: ${e}`);
+                    continue;
+                }
+                if (!status.upstream) {
+                    skipped.push(`${name}: no upstream`);
+                } else if (status.behind === undefined) {
+                    // git gives no ahead/behind counts when the upstream branch no longer exists
+                    gone.push(`${name}: ${status.upstream}`);
+                } else if (!status.behind) {
+                    // already up to date, so there is nothing to report
+                } else if (isDirty(status)) {
+                    skipped.push(`${name}: uncommitted changes`);
+                } else if (status.ahead) {
+                    skipped.push(`${name}: diverged from ${status.upstream}`);
+                } else {
+                    const merge = await executeInWorktree(
+                        worktree,
+                        gitExecutable,
+                        "merge",
+                        "--ff-only",
+                        "@{upstream}",
+                    );
+                    if (merge.error) {
+                        failed.push(`${name}: ${merge.stderr.trim()}`);
+                    } else {
+                        updated.push(name);
+                    }
+                }
+            }
+        },
+    );
+
+    const summary = [
+        `Updated ${updated.length} worktree${updated.length === 1 ? "" : "s"}.`,
+        ...(skipped.length > 0 ? [`Skipped ${skipped.length}.`] : []),
+        ...(gone.length > 0
+            ? [`${gone.length} upstream${gone.length === 1 ? "" : "s"} gone.`]
+            : []),
+        ...(failed.length > 0 ? [`${failed.length} failed.`] : []),
+    ].join(" ");
+    const detail = [
+        ...(updated.length > 0 ? ["Updated:", ...updated.map((n) => `  ${n}`)] : []),
+        ...(skipped.length > 0 ? ["Skipped:", ...skipped.map((n) => `  ${n}`)] : []),
+        ...(gone.length > 0 ? ["Upstream gone:", ...gone.map((n) => `  ${n}`)] : []),
+        ...(failed.length > 0 ? ["Failed:", ...failed.map((n) => `  ${n}`)] : []),
+    ].join("\n");
+    logger.info("Sync summary:", summary, `\n${detail}`);
+    if (failed.length > 0) {
+        vscode.window.showErrorMessage(summary, { modal: true, detail });
+    } else if (skipped.length > 0 || gone.length > 0) {
+        vscode.window.showInformationMessage(summary, { modal: true, detail });
+    } else {
+        vscode.window.showInformationMessage(summary);
+    }
+}
@@ -0,0 +1,79 @@
+import * as assert from "assert";
+import { parseStatus, statusSummary } from "../worktreeStatus";
+
+/** Joins records the way `git status --porcelain=v2 --branch -z` does */
+function porcelain(...records: string[]): string {
+    return records.map((record) => `${record}\0`).join("");
+}
+
+const BRANCH_HEADERS = [
+    "# branch.oid 2a29b70f140b7bbebc42e0c95f3a7e294ae92e6c",
+    "# branch.head main",
+];
+const HASH_A = "e69de29bb2d1d6434b8b29ae775ad8c2e48c5391";
+const HASH_B = "d00491fd7e5bb6fa28c517a0bb32b8b506539d4d";
+
+suite("Worktree status", () => {
+    test("Clean worktree without an upstream", () => {
+        const status = parseStatus(porcelain(...BRANCH_HEADERS));
+        assert.deepStrictEqual(status, { staged: 0, modified: 0, untracked: 0, conflicted: 0 });
+        assert.strictEqual(statusSummary(status), "");
+    });
+
+    test("Ahead and behind the upstream", () => {
+        const status = parseStatus(
+            porcelain(...BRANCH_HEADERS, "# branch.upstream origin/main", "# branch.ab +3 -2"),
+        );
+        assert.strictEqual(status.upstream, "origin/main");
+        assert.strictEqual(status.ahead, 3);
+        assert.strictEqual(status.behind, 2);
+        assert.strictEqual(statusSummary(status), "↑3 ↓2");
+    });
+
+    test("Staged and modified files", () => {
+        const status = parseStatus(
+            porcelain(
+                ...BRANCH_HEADERS,
+                `1 M. N... 100644 100644 100644 ${HASH_A} ${HASH_B} staged.ts`,
+                `1 .M N... 100644 100644 100644 ${HASH_A} ${HASH_A} modified.ts`,
+                `1 MM N... 100644 100644 100644 ${HASH_A} ${HASH_B} both.ts`,
+            ),
+        );
+        assert.strictEqual(status.staged, 2);
+        assert.strictEqual(status.modified, 2);
+        assert.strictEqual(statusSummary(status), "+2 ~2");
+    });
+
+    test("Renamed files are counted once", () => {
+        const status = parseStatus(
+            porcelain(
+                ...BRANCH_HEADERS,
+                `2 R. N... 100644 100644 100644 ${HASH_A} ${HASH_A} R100 new name.ts`,
+                "old name.ts",
+                // the original path of a rename must not be mistaken for another record
+                `2 R. N... 100644 100644 100644 ${HASH_A} ${HASH_A} R100 renamed.ts`,
+                "? looks untracked.ts",
+            ),
+        );
+        assert.strictEqual(status.staged, 2);
+        assert.strictEqual(status.modified, 0);
+        assert.strictEqual(status.untracked, 0);
+    });
+
+    test("Conflicted and untracked files", () => {
+        const status = parseStatus(
+            porcelain(
+                ...BRANCH_HEADERS,
+                `u UU N... 100644 100644 100644 100644 ${HASH_A} ${HASH_B} ${HASH_A} conflict.ts`,
+                "? new file.ts",
+                "? another.ts",
+                "! ignored.log",
+            ),
+        );
+        assert.strictEqual(status.conflicted, 1);
+        assert.strictEqual(status.untracked, 2);
+        assert.strictEqual(status.staged, 0);
+        assert.strictEqual(status.modified, 0);
+        assert.strictEqual(statusSummary(status), "!1 ?2");
+    });
+});
@@ -1,6 +1,7 @@
 import path from "path";
 import * as vscode from "vscode";
 import { RepositoryTreeID } from "./extension";
+import { cleanPath } from "./execute";
 
 export async function readFileUTF8(uri: vscode.Uri): Promise<string> {
     return new TextDecoder("utf-8").decode(await vscode.workspace.fs.readFile(uri));
@@ -15,6 +16,28 @@ export function uriJoinPath(uri: vscode.Uri, ...paths: string[]): vscode.Uri {
     });
 }
 
+function normalizePath(p: string): string {
+    const cleaned = cleanPath(p).replace(/[\\/]+$/, "");
+    return process.platform === "win32" ? cleaned.replace(/\\/g, "/").toLowerCase() : cleaned;
+}
+
+/**
+ * Compares two file paths, ignoring the differences in leading slashes and drive letter case that
+ * appear between git and VS Code on Windows.
+ */
+export function isSamePath(a: string, b: string): boolean {
+    return normalizePath(a) === normalizePath(b);
+}
+
+/** Whether `child` is `parent` or somewhere inside of it */
+export function isPathInside(child: string, parent: string): boolean {
+    const normalizedChild = normalizePath(child);
+    const normalizedParent = normalizePath(parent);
+    return (
+        normalizedChild === normalizedParent || normalizedChild.startsWith(`${normalizedParent}/`)
+    );
+}
+
 /**
  * Produces a displayable version of a ref or commit hash
  *
@@ -36,12 +59,30 @@ export function refDisplayName(refOrHash: string): string {
     return refOrHash;
 }
 
+/**
+ * Produces a displayable name for a repository from its git directory
+ *
+ * @example
+ * repoName(vscode.Uri.file("/projects/my-project/.git")) === "my-project"
+ * repoName(vscode.Uri.file("/projects/my-project/.bare")) === "my-project"
+ * repoName(vscode.Uri.file("/projects/my-project.git")) === "my-project"
+ */
 export function repoName(repo: vscode.Uri | RepositoryTreeID): string {
-    if (typeof repo === "string") {
-        return /\/([^/]+)\/[^/]+\/?$/.exec(repo)?.[1] ?? "/";
-    } else {
-        return /\/([^/]+)\/[^/]+\/?$/.exec(repo.path)?.[1] ?? "/";
+    const repoPath =
+        typeof repo === "string"
+            ? vscode.Uri.parse(repo.slice("repository:".length)).path
+            : repo.path;
+    const segments = repoPath.split("/").filter((s) => s.length > 0);
+    const last = segments.at(-1);
+    if (!last) {
+        return "/";
+    } else if (last === ".git" || last === ".bare") {
+        return segments.at(-2) ?? "/";
+    } else if (last.endsWith(".git")) {
+        return last.slice(0, -".git".length);
     }
+    // a bare repository with an unusual name
+    return last;
 }
 
 export async function viewProgress<T>(
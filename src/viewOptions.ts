@@ -0,0 +1,250 @@
+import * as vscode from "vscode";
+import { gitExecutable, globalStateManager } from "./extension";
+import { BasicWorktreeData, Repo } from "./repo";
+import { worktreeLabel } from "./metadata";
+import { isSamePath, refDisplayName } from "./util";
+import { isDirty } from "./worktreeStatus";
+
+export type WorktreeSort = "default" | "name" | "commitDate" | "lastOpened";
+export type WorktreeStateFilter = "dirty" | "locked" | "detached";
+/** How to show repositories that are not pinned */
+export type UnpinnedDisplay = "expanded" | "collapsed" | "hidden";
+
+export interface ViewOptions {
+    sort: WorktreeSort;
+    /** Whether to put worktrees in folders by the prefix of their branch, e.g. `feature/` */
+    groupByPrefix: boolean;
+    /** Only show worktrees whose name, branch, path, or note contains this (case-insensitive) */
+    filterText: string;
+    /** Only show worktrees in at least one of these states. Empty to show all. */
+    filterStates: WorktreeStateFilter[];
+    unpinnedRepos: UnpinnedDisplay;
+}
+
+const DEFAULT_VIEW_OPTIONS: ViewOptions = {
+    sort: "default",
+    groupByPrefix: false,
+    filterText: "",
+    filterStates: [],
+    unpinnedRepos: "expanded",
+};
+
+const VIEW_OPTIONS_KEY = "viewOptions";
+
+/**
+ * Remembers how the user wants the view to be sorted, grouped and filtered.
+ * Stored in the extension's global state, so it applies to every window.
+ */
+export class ViewOptionsManager extends vscode.EventEmitter<ViewOptions> {
+    constructor(private readonly memento: vscode.Memento) {
+        super();
+        this.updateContext();
+    }
+
+    get options(): Readonly<ViewOptions> {
+        return {
+            ...DEFAULT_VIEW_OPTIONS,
+            ...this.memento.get<Partial<ViewOptions>>(VIEW_OPTIONS_KEY),
+        };
+    }
+
+    get isFiltered(): boolean {
+        return this.options.filterText.length > 0 || this.options.filterStates.length > 0;
+    }
+
+    async update(changes: Partial<ViewOptions>) {
+        await this.memento.update(VIEW_OPTIONS_KEY, { ...this.options, ...changes });
+        this.updateContext();
+        this.fire(this.options);
+    }
+
+    /** Sets the context keys used to choose which view title actions are shown */
+    private updateContext() {
+        vscode.commands.executeCommand("setContext", "worktrees.viewFiltered", this.isFiltered);
+        vscode.commands.executeCommand(
+            "setContext",
+            "worktrees.viewGrouped",
+            this.options.groupByPrefix,
+        );
+    }
+}
+
+/** Commit times never change, so they are cached by hash */
+const commitTimes = new Map<string, number>();
+async function getCommitTimes(repo: Readonly<Repo>, hashes: string[]) {
+    const missing = Array.from(new Set(hashes.filter((hash) => !commitTimes.has(hash))));
+    if (missing.length === 0) {
+        return;
+    }
+    const { error, stdout } = await repo.executeInRepo(
+        gitExecutable,
+        "show",
+        "--no-patch",
+        "--format=%H %ct",
+        ...missing,
+    );
+    if (error) {
+        return;
+    }
+    for (const line of stdout.trim().split("\n")) {
+        const [hash, time] = line.split(" ");
+        if (hash && time) {
+            commitTimes.set(hash, Number(time) * 1000);
+        }
+    }
+}
+
+/** Sorts worktrees, keeping `git worktree list` order for ties (and for the default) */
+export async function sortWorktrees(
+    repo: Readonly<Repo>,
+    worktrees: BasicWorktreeData[],
+    sort: WorktreeSort,
+): Promise<BasicWorktreeData[]> {
+    const byOrder = (a: BasicWorktreeData, b: BasicWorktreeData) => a.order - b.order;
+    // newest first, with unknown times last
+    const byTime =
+        (getTime: (wt: BasicWorktreeData) => number | undefined) =>
+        (a: BasicWorktreeData, b: BasicWorktreeData) =>
+            (getTime(b) ?? -Infinity) - (getTime(a) ?? -Infinity) || byOrder(a, b);
+
+    switch (sort) {
+        case "default":
+            return worktrees.sort(byOrder);
+        case "name":
+            return worktrees.sort(
+                (a, b) => worktreeLabel(a).localeCompare(worktreeLabel(b)) || byOrder(a, b),
+            );
+        case "commitDate":
+            await getCommitTimes(
+                repo,
+                worktrees.flatMap((wt) => (wt.HEAD ? [wt.HEAD] : [])),
+            );
+            return worktrees.sort(byTime((wt) => (wt.HEAD ? commitTimes.get(wt.HEAD) : undefined)));
+        case "lastOpened":
+            break;
+    }
+    const times = Object.entries(await globalStateManager.lastOpenedTimes());
+    const lastOpened = (wt: BasicWorktreeData) =>
+        times.find(([path]) => isSamePath(path, wt.worktree))?.[1];
+    return worktrees.sort(byTime(lastOpened));
+}
+
+/** Checks whether a worktree should be shown with the current filter */
+export async function matchesFilter(
+    repo: Readonly<Repo>,
+    worktree: Readonly<BasicWorktreeData>,
+    { filterText, filterStates }: Readonly<ViewOptions>,
+): Promise<boolean> {
+    if (filterText) {
+        const metadata = globalStateManager.getMetadata(worktree.worktree);
+        const searchable = [
+            worktreeLabel(worktree),
+            refDisplayName(worktree.branch ?? worktree.HEAD ?? ""),
+            worktree.worktree,
+            metadata.note ?? "",
+        ];
+        const needle = filterText.toLowerCase();
+        if (!searchable.some((text) => text.toLowerCase().includes(needle))) {
+            return false;
+        }
+    }
+    if (filterStates.length === 0) {
+        return true;
+    }
+    for (const state of filterStates) {
+        if (state === "locked" && worktree.locked !== undefined) {
+            return true;
+        } else if (state === "detached" && !worktree.branch) {
+            return true;
+        } else if (state === "dirty" && worktree.prunable === undefined) {
+            const status = await repo.status.load(worktree.worktree);
+            if (status && isDirty(status)) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+/** The prefix of a branch that it is grouped by, e.g. `feature` for `feature/login` */
+export function branchPrefix(worktree: Readonly<BasicWorktreeData>): string | undefined {
+    if (!worktree.branch) {
+        return undefined;
+    }
+    const name = refDisplayName(worktree.branch);
+    const slash = name.indexOf("/");
+    return slash > 0 ? name.slice(0, slash) : undefined;
+}
+
+type SortItem = vscode.QuickPickItem & { sort: WorktreeSort };
+export async function pickSort(manager: ViewOptionsManager) {
+    const current = manager.options.sort;
+    const items: SortItem[] = [
+        { label: "Default", detail: "The order from `git worktree list`", sort: "default" },
+        { label: "Name", detail: "Alphabetically by alias or branch", sort: "name" },
+        { label: "Last Commit", detail: "Most recent commit first", sort: "commitDate" },
+        { label: "Last Opened", detail: "Most recently opened first", sort: "lastOpened" },
+    ];
+    for (const item of items) {
+        if (item.sort === current) {
+            item.description = "(current)";
+        }
+    }
+    const picked = await vscode.window.showQuickPick(items, { title: "Sort Worktrees By" });
+    if (picked) {
+        await manager.update({ sort: picked.sort });
+    }
+}
+
+type StateItem = vscode.QuickPickItem & { state: WorktreeStateFilter };
+export async function pickFilter(manager: ViewOptionsManager) {
+    const filterText = await vscode.window.showInputBox({
+        title: "Filter Worktrees (1/2)",
+        prompt: "Only show worktrees whose name, branch, path, or note contains this. Leave empty to show all.",
+        value: manager.options.filterText,
+    });
+    if (filterText === undefined) {
+        return;
+    }
+    const items: StateItem[] = [
+        { label: "$(diff-modified) Dirty", state: "dirty" },
+        { label: "$(lock) Locked", state: "locked" },
+        { label: "$(git-commit) Detached HEAD", state: "detached" },
+    ];
+    for (const item of items) {
+        item.picked = manager.options.filterStates.includes(item.state);
+    }
+    const states = await vscode.window.showQuickPick<StateItem>(items, {
+        title: "Filter Worktrees (2/2)",
+        placeHolder: "Only show worktrees in any of these states. Pick none to show all.",
+        canPickMany: true,
+    });
+    if (!states) {
+        return;
+    }
+    await manager.update({
+        filterText: filterText.trim(),
+        filterStates: states.map((s) => s.state),
+    });
+}
+
+type UnpinnedItem = vscode.QuickPickItem & { display: UnpinnedDisplay };
+export async function pickUnpinnedDisplay(manager: ViewOptionsManager) {
+    const current = manager.options.unpinnedRepos;
+    const items: UnpinnedItem[] = [
+        { label: "Expanded", display: "expanded" },
+        { label: "Collapsed", display: "collapsed" },
+        { label: "Hidden", display: "hidden" },
+    ];
+    for (const item of items) {
+        if (item.display === current) {
+            item.description = "(current)";
+        }
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+        title: "Show Repositories That Aren't Pinned As",
+    });
+    if (picked) {
+        await manager.update({ unpinnedRepos: picked.display });
+    }
+}
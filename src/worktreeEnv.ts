@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+import { globalStateManager } from "./extension";
+import { BasicWorktreeData } from "./repo";
+import { refDisplayName, uriJoinPath, writeFileUTF8 } from "./util";
+
+/** The file that {@link writeEnvFile} writes in a worktree */
+export const ENV_FILE_NAME = ".env.worktree";
+
+interface EnvironmentConfig {
+    enabled: boolean;
+    /** How much `PORT_OFFSET` goes up by for each index */
+    portOffsetStep: number;
+    writeEnvFile: boolean;
+}
+export function getEnvironmentConfig(): EnvironmentConfig {
+    const config = vscode.workspace.getConfiguration("worktrees.environment");
+    return {
+        enabled: config.get<boolean>("enabled") ?? true,
+        portOffsetStep: Math.max(0, config.get<number>("portOffsetStep") ?? 10),
+        writeEnvFile: config.get<boolean>("writeEnvFile") ?? false,
+    };
+}
+
+/**
+ * Gets the environment variables that tell apart worktrees running side by side.
+ * Main worktrees always have index 0, so they keep their usual ports.
+ *
+ * @param ref The branch (or commit) checked out in the worktree
+ */
+export async function worktreeEnvironment(
+    worktreePath: string,
+    ref: string | undefined,
+    isMain: boolean,
+): Promise<Record<string, string>> {
+    const { portOffsetStep } = getEnvironmentConfig();
+    const index = isMain ? 0 : await globalStateManager.worktreeIndex(worktreePath);
+    return {
+        WORKTREE_INDEX: `${index}`,
+        PORT_OFFSET: `${index * portOffsetStep}`,
+        WORKTREE_BRANCH: ref ? refDisplayName(ref) : "",
+    };
+}
+
+/** Gets a worktree's environment variables, or undefined if `worktrees.environment.enabled` is off */
+export async function environmentFor(
+    worktree: Readonly<BasicWorktreeData>,
+): Promise<Record<string, string> | undefined> {
+    if (!getEnvironmentConfig().enabled) {
+        return undefined;
+    }
+    return await worktreeEnvironment(
+        worktree.worktree,
+        worktree.branch ?? worktree.HEAD,
+        worktree.order === 0,
+    );
+}
+
+/** Writes a worktree's environment variables to a `.env.worktree` file in it */
+export async function writeEnvFile(worktree: vscode.Uri, env: Record<string, string>) {
+    const lines = Object.entries(env).map(([name, value]) => `${name}=${value}`);
+    await writeFileUTF8(
+        uriJoinPath(worktree, ENV_FILE_NAME),
+        `# Written by the Git Worktrees extension\n${lines.join("\n")}\n`,
+    );
+}
@@ -0,0 +1,292 @@
+import * as vscode from "vscode";
+import { gitExecutable, logger, updateEvent } from "./extension";
+import { execute } from "./execute";
+import { isPathInside } from "./util";
+
+export interface WorktreeStatus {
+    /** Number of files with changes in the index */
+    staged: number;
+    /** Number of tracked files with changes in the working tree that are not staged */
+    modified: number;
+    /** Number of untracked files */
+    untracked: number;
+    /** Number of files with unresolved merge conflicts */
+    conflicted: number;
+    /** The upstream branch (e.g. `origin/main`), or undefined if there is none */
+    upstream?: string;
+    /** Commits ahead of upstream, or undefined if there is no upstream */
+    ahead?: number;
+    /** Commits behind upstream, or undefined if there is no upstream */
+    behind?: number;
+}
+
+export function isDirty(status: WorktreeStatus): boolean {
+    return (
+        status.staged > 0 || status.modified > 0 || status.untracked > 0 || status.conflicted > 0
+    );
+}
+
+/**
+ * Produces a short summary of a status for use in a tree item description
+ *
+ * @example
+ * statusSummary({ staged: 1, modified: 2, untracked: 0, conflicted: 0, ahead: 3, behind: 0 }) === "+1 ~2 ↑3"
+ */
+export function statusSummary(status: WorktreeStatus): string {
+    const parts: string[] = [];
+    if (status.conflicted > 0) {
+        parts.push(`!${status.conflicted}`);
+    }
+    if (status.staged > 0) {
+        parts.push(`+${status.staged}`);
+    }
+    if (status.modified > 0) {
+        parts.push(`~${status.modified}`);
+    }
+    if (status.untracked > 0) {
+        parts.push(`?${status.untracked}`);
+    }
+    if (status.ahead) {
+        parts.push(`↑${status.ahead}`);
+    }
+    if (status.behind) {
+        parts.push(`↓${status.behind}`);
+    }
+    return parts.join(" ");
+}
+
+/** A longer, multi-line description of a status for use in tooltips */
+export function statusDescription(status: WorktreeStatus): string {
+    const lines: string[] = [];
+    if (!isDirty(status)) {
+        lines.push("No uncommitted changes");
+    } else {
+        if (status.conflicted > 0) {
+            lines.push(`${status.conflicted} conflicted`);
+        }
+        lines.push(
+            `${status.staged} staged, ${status.modified} modified, ${status.untracked} untracked`,
+        );
+    }
+    if (status.upstream) {
+        lines.push(`${status.ahead ?? 0} ahead, ${status.behind ?? 0} behind ${status.upstream}`);
+    } else {
+        lines.push("No upstream branch");
+    }
+    return lines.join("\n");
+}
+
+/** Parses the output of `git status --porcelain=v2 --branch -z` */
+export function parseStatus(stdout: string): WorktreeStatus {
+    const status: WorktreeStatus = { staged: 0, modified: 0, untracked: 0, conflicted: 0 };
+    const records = stdout.split("\0");
+    for (let i = 0; i < records.length; i++) {
+        const record = records[i];
+        if (record.startsWith("# branch.upstream ")) {
+            status.upstream = record.slice("# branch.upstream ".length);
+        } else if (record.startsWith("# branch.ab ")) {
+            const ab = /^# branch\.ab \+(\d+) -(\d+)$/.exec(record);
+            if (ab) {
+                status.ahead = parseInt(ab[1]);
+                status.behind = parseInt(ab[2]);
+            }
+        } else if (record.startsWith("1 ") || record.startsWith("2 ")) {
+            if (record[2] !== ".") {
+                status.staged++;
+            }
+            if (record[3] !== ".") {
+                status.modified++;
+            }
+            if (record.startsWith("2 ")) {
+                i++; // renames and copies are followed by the original path
+            }
+        } else if (record.startsWith("u ")) {
+            status.conflicted++;
+        } else if (record.startsWith("? ")) {
+            status.untracked++;
+        }
+    }
+    return status;
+}
+
+export async function getWorktreeStatus(worktreePath: string): Promise<WorktreeStatus> {
+    const { error, stdout, stderr } = await execute(
+        gitExecutable,
+        ["--no-optional-locks", "status", "--porcelain=v2", "--branch", "-z"],
+        { cwd: worktreePath },
+    );
+    if (error) {
+        throw new Error(stderr);
+    }
+    return parseStatus(stdout);
+}
+
+/** How long to wait after the last change to a worktree before refreshing its status */
+const STATUS_DEBOUNCE_MS = 1000;
+
+/**
+ * Keeps a cache of the status of each worktree in a repository.
+ *
+ * Statuses are only computed when requested (e.g. when a tree item is rendered), and are
+ * invalidated when files in that specific worktree change, so a change in one worktree does not
+ * cause `git status` to run for every other worktree.
+ */
+export class WorktreeStatusTracker implements vscode.Disposable {
+    private readonly cache = new Map<string, WorktreeStatus>();
+    private readonly pending = new Map<string, Promise<void>>();
+    private readonly timers = new Map<string, NodeJS.Timeout>();
+    private readonly watchers = new Map<string, vscode.Disposable>();
+
+    /**
+     * @param makeUri Converts a worktree path to a uri (so it can share the repository's scheme and authority)
+     */
+    constructor(private readonly makeUri: (path: string) => vscode.Uri) {}
+
+    /**
+     * Gets the cached status for a worktree.
+     * If there is none, it will start computing it and fire an update for the tree item once it is ready.
+     */
+    get(worktreePath: string): WorktreeStatus | undefined {
+        const cached = this.cache.get(worktreePath);
+        if (!cached) {
+            this.refresh(worktreePath);
+        }
+        return cached;
+    }
+
+    /** Gets the cached status for a worktree, waiting for it to be computed if there is none */
+    async load(worktreePath: string): Promise<WorktreeStatus | undefined> {
+        if (!this.cache.has(worktreePath)) {
+            this.refresh(worktreePath);
+            await this.pending.get(worktreePath);
+        }
+        return this.cache.get(worktreePath);
+    }
+
+    private refresh(worktreePath: string) {
+        if (this.pending.has(worktreePath)) {
+            return;
+        }
+        const promise = (async () => {
+            try {
+                this.cache.set(worktreePath, await getWorktreeStatus(worktreePath));
+                updateEvent.fire(`worktree:${worktreePath}`);
+            } catch (e) {
+                logger.warn("Failed to get status of worktree", worktreePath, e);
+            } finally {
+                this.pending.delete(worktreePath);
+            }
+        })();
+        this.pending.set(worktreePath, promise);
+    }
+
+    /** Marks a worktree's status as stale, refreshing it after a short delay */
+    invalidate(worktreePath: string) {
+        if (!this.watchers.has(worktreePath)) {
+            return; // not a worktree we are tracking
+        }
+        clearTimeout(this.timers.get(worktreePath));
+        this.timers.set(
+            worktreePath,
+            setTimeout(() => {
+                this.timers.delete(worktreePath);
+                // the stale status is kept until the new one is ready to avoid flickering
+                this.refresh(worktreePath);
+            }, STATUS_DEBOUNCE_MS),
+        );
+    }
+
+    invalidateAll() {
+        for (const worktreePath of this.watchers.keys()) {
+            this.invalidate(worktreePath);
+        }
+    }
+
+    /** Starts watching new worktrees, and stops watching (and forgets) ones that no longer exist */
+    sync(worktreePaths: Iterable<string>) {
+        const current = new Set(worktreePaths);
+        for (const [worktreePath, watcher] of this.watchers) {
+            if (!current.has(worktreePath)) {
+                watcher.dispose();
+                this.watchers.delete(worktreePath);
+                this.cache.delete(worktreePath);
+                clearTimeout(this.timers.get(worktreePath));
+                this.timers.delete(worktreePath);
+            }
+        }
+        for (const worktreePath of current) {
+            if (this.watchers.has(worktreePath)) {
+                continue;
+            }
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(this.makeUri(worktreePath), "**"),
+            );
+            const onEvent = (uri: vscode.Uri) => {
+                // Changes to the index are handled by the repository, and `.git` in the main worktree
+                // changes far more often than anything relevant to this worktree's status.
+                if (/\/\.git(\/|$)/.test(uri.path)) {
+                    return;
+                }
+                // linked worktrees are often nested in the main one, but only change their own status
+                for (const other of this.watchers.keys()) {
+                    if (
+                        other !== worktreePath &&
+                        isPathInside(other, worktreePath) &&
+                        isPathInside(uri.path, other)
+                    ) {
+                        return;
+                    }
+                }
+                this.invalidate(worktreePath);
+            };
+            this.watchers.set(
+                worktreePath,
+                vscode.Disposable.from(
+                    watcher,
+                    watcher.onDidCreate(onEvent),
+                    watcher.onDidChange(onEvent),
+                    watcher.onDidDelete(onEvent),
+                ),
+            );
+        }
+    }
+
+    dispose() {
+        this.watchers.forEach((d) => d.dispose());
+        this.watchers.clear();
+        this.timers.forEach((t) => clearTimeout(t));
+        this.timers.clear();
+    }
+}
+
+export interface ChangedFile {
+    /** The two-letter status code from `git status --porcelain` (e.g. ` M` or `??`) */
+    code: string;
+    /** Relative to the root of the worktree */
+    path: string;
+}
+
+/** Lists every uncommitted change in a worktree, including each untracked file */
+export async function getChangedFiles(worktreePath: string): Promise<ChangedFile[]> {
+    const { error, stdout, stderr } = await execute(
+        gitExecutable,
+        ["--no-optional-locks", "status", "--porcelain", "--untracked-files=all", "-z"],
+        { cwd: worktreePath },
+    );
+    if (error) {
+        throw new Error(stderr);
+    }
+    const records = stdout.split("\0");
+    const files: ChangedFile[] = [];
+    for (let i = 0; i < records.length; i++) {
+        const record = records[i];
+        if (record.length < 4) {
+            continue;
+        }
+        files.push({ code: record.slice(0, 2), path: record.slice(3) });
+        if (record[0] === "R" || record[0] === "C") {
+            i++; // renames and copies are followed by the original path
+        }
+    }
+    return files;
+}
@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  The API of the Git Worktrees extension, for other extensions to use. Copy this file into your
+ *  extension, then get the API with:
+ *
+ *      const api = vscode.extensions
+ *          .getExtension<WorktreesExtension>("kaih2o.worktrees")
+ *          ?.exports.getAPI(1);
+ *--------------------------------------------------------------------------------------------*/
+
+import { Event, Uri } from "vscode";
+
+export interface Worktree {
+    /** The worktree's folder */
+    readonly uri: Uri;
+    /** The full ref of the checked out branch (e.g. `refs/heads/main`), or undefined if HEAD is detached */
+    readonly branch?: string;
+    /** The hash of the checked out commit */
+    readonly head?: string;
+    /** Whether this is the repository's main worktree (rather than a linked one) */
+    readonly isMain: boolean;
+    /** The reason it is locked (empty if none was given), or undefined if it isn't locked */
+    readonly locked?: string;
+    /** Why it can be pruned (e.g. its folder is gone), or undefined if it can't be */
+    readonly prunable?: string;
+}
+
+export interface Repository {
+    /** The repository's common git directory, e.g. `/project/.git` or `/project.git` */
+    readonly gitDir: Uri;
+    readonly name: string;
+    readonly isBare: boolean;
+    readonly worktrees: readonly Worktree[];
+}
+
+export interface CreateWorktreeOptions {
+    /**
+     * The branch to check out. If there is no local branch with this name but a remote has one,
+     * a local branch tracking it is created.
+     */
+    readonly branch: string;
+    /** If set, `branch` is created as a new branch starting at this commit (or branch, tag, etc.) */
+    readonly startPoint?: string;
+    /** Where to create the worktree. Defaults to the location from the `worktrees.worktreeLocation` setting. */
+    readonly location?: Uri;
+    /** Whether to run the post-create hooks (copying files, setup commands, etc.). Defaults to true. */
+    readonly runPostCreateHooks?: boolean;
+}
+
+export interface RemoveWorktreeOptions {
+    /** Remove the worktree even if it has uncommitted changes or is locked */
+    readonly force?: boolean;
+}
+
+export interface OpenWorktreeOptions {
+    /** Open it in a new window instead of the current one */
+    readonly newWindow?: boolean;
+}
+
+export interface API {
+    readonly version: 1;
+
+    /** The repositories tracked by the extension (open, pinned, or discovered) */
+    readonly repositories: readonly Repository[];
+    /** Fires when repositories or worktrees (or their status) change */
+    readonly onDidChange: Event<void>;
+
+    /** Finds the repository that a uri belongs to, from its git directory or a file in one of its worktrees */
+    getRepository(uri: Uri): Repository | undefined;
+    /** Finds the worktree containing a uri. If worktrees are nested, the innermost one is used. */
+    getWorktree(uri: Uri): Worktree | undefined;
+
+    /**
+     * Creates a worktree. Fails (with git's error as the message) if git fails.
+     * @param repository The repository, or a uri that {@link getRepository} can resolve
+     */
+    createWorktree(repository: Repository | Uri, options: CreateWorktreeOptions): Promise<Worktree>;
+    /**
+     * Removes a worktree and deletes its folder. Fails (with git's error as the message) if git fails.
+     * @param worktree The worktree, or the uri of its folder. Uris of files or folders inside a worktree are rejected.
+     */
+    removeWorktree(worktree: Worktree | Uri, options?: RemoveWorktreeOptions): Promise<void>;
+    /** Opens a worktree's folder in this or a new window */
+    openWorktree(worktree: Worktree | Uri, options?: OpenWorktreeOptions): Promise<void>;
+}
+
+export interface WorktreesExtension {
+    /**
+     * Gets a version of the API. Throws if the version isn't supported.
+     * @param version The only version is currently 1
+     */
+    getAPI(version: 1): API;
+}